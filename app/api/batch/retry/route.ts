@@ -0,0 +1,5 @@
+import { flowRoute } from '@/lib/genkit/route';
+import { retryBatch } from '@/lib/genkit/flows';
+
+// Use the flowRoute helper to expose the flow as an API endpoint
+export const POST = flowRoute(retryBatch);
\ No newline at end of file
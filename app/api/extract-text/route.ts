@@ -1,5 +1,5 @@
-import { appRoute } from '@genkit-ai/next';
+import { flowRoute } from '@/lib/genkit/route';
 import { extractTextFromImage } from '@/lib/genkit/flows';
 
-// Use the appRoute helper to expose the flow as an API endpoint
-export const POST = appRoute(extractTextFromImage);
\ No newline at end of file
+// Use the flowRoute helper to expose the flow as an API endpoint
+export const POST = flowRoute(extractTextFromImage);
\ No newline at end of file
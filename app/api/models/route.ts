@@ -1,5 +1,5 @@
-import { appRoute } from '@genkit-ai/next';
+import { flowRoute } from '@/lib/genkit/route';
 import { getAvailableModels } from '@/lib/genkit/flows';
 
-// Use the appRoute helper to expose the flow as an API endpoint
-export const POST = appRoute(getAvailableModels);
\ No newline at end of file
+// Use the flowRoute helper to expose the flow as an API endpoint
+export const POST = flowRoute(getAvailableModels);
\ No newline at end of file
@@ -0,0 +1,5 @@
+import { flowRoute } from '@/lib/genkit/route';
+import { showModel } from '@/lib/genkit/flows';
+
+// Use the flowRoute helper to expose the flow as an API endpoint
+export const POST = flowRoute(showModel);
\ No newline at end of file
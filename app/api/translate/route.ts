@@ -0,0 +1,5 @@
+import { flowRoute } from '@/lib/genkit/route';
+import { translateText } from '@/lib/genkit/flows';
+
+// Use the flowRoute helper to expose the flow as an API endpoint
+export const POST = flowRoute(translateText);
\ No newline at end of file
@@ -0,0 +1,4 @@
+import { handleExtractRequest } from '@/lib/genkit/api';
+
+// Public v1 endpoint: multipart or raw image uploads, JSON or Server-Sent Events responses
+export const POST = handleExtractRequest;
\ No newline at end of file
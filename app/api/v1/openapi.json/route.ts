@@ -0,0 +1,7 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/genkit/openapi';
+
+// OpenAPI document of the v1 API, served without an API key so clients can be generated from it
+export function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
\ No newline at end of file
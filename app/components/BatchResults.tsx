@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, XCircle, Clock, Loader2, Ban, RotateCcw, Archive, ChevronDown } from 'lucide-react';
+import { cn, downloadBlob } from '@/lib/utils';
+import { createZipArchive, uniqueFileName } from '@/lib/archive';
+import { ErrorNotice } from './ErrorNotice';
+import type { BatchStatus } from '@/app/hooks/useBatchExtraction';
+
+interface BatchResultsProps {
+  batch: BatchStatus;
+  onCancel: (itemIds?: string[]) => void;
+  onRetry: (itemIds?: string[]) => void;
+}
+
+type BatchItem = BatchStatus['items'][number];
+
+const STATUS_STYLES: Record<BatchItem['status'], { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-gray-600 dark:text-gray-400' },
+  running: { label: 'Running', className: 'text-blue-600 dark:text-blue-400' },
+  completed: { label: 'Done', className: 'text-green-600 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'text-red-600 dark:text-red-400' },
+  cancelled: { label: 'Cancelled', className: 'text-yellow-600 dark:text-yellow-400' },
+};
+
+function StatusIcon({ status }: { status: BatchItem['status'] }) {
+  switch (status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-gray-400 flex-shrink-0" />;
+    case 'running':
+      return <Loader2 className="h-4 w-4 text-blue-600 animate-spin flex-shrink-0" />;
+    case 'completed':
+      return <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-yellow-500 flex-shrink-0" />;
+  }
+}
+
+// Bundle per-image text files, a combined text file and a JSON summary
+function buildArchive(batch: BatchStatus): Blob {
+  const taken = new Set<string>(['combined.txt', 'results.json']);
+  const files: Record<string, string> = {};
+  const combined: string[] = [];
+
+  for (const item of batch.items) {
+    if (item.status !== 'completed' || !item.result) continue;
+    const base = item.fileName.replace(/\.[^.]+$/, '') || 'image';
+    files[uniqueFileName(`${base}.txt`, taken)] = item.result.extractedText;
+    combined.push(`===== ${item.fileName} =====\n\n${item.result.extractedText}`);
+  }
+
+  files['combined.txt'] = combined.join('\n\n');
+  files['results.json'] = JSON.stringify(
+    {
+      batchId: batch.id,
+      model: batch.model,
+      createdAt: new Date(batch.createdAt).toISOString(),
+      items: batch.items.map(item => ({
+        fileName: item.fileName,
+        status: item.status,
+        attempts: item.attempts,
+        error: item.error,
+        extractedText: item.result?.extractedText,
+        metadata: item.result?.metadata,
+      })),
+    },
+    null,
+    2
+  );
+
+  return createZipArchive(files);
+}
+
+export function BatchResults({ batch, onCancel, onRetry }: BatchResultsProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const counts = batch.items.reduce(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 } as Record<BatchItem['status'], number>
+  );
+  const total = batch.items.length;
+  const finished = counts.completed + counts.failed + counts.cancelled;
+  const isActive = counts.queued + counts.running > 0;
+  const retryable = counts.failed + counts.cancelled;
+
+  const handleExport = () => {
+    downloadBlob(buildArchive(batch), `batch-extraction-${batch.createdAt}.zip`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Batch Progress
+        </h2>
+        <div className="flex items-center gap-2">
+          {isActive && (
+            <button
+              onClick={() => onCancel()}
+              className="px-3 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors flex items-center gap-1"
+            >
+              <Ban className="h-3 w-3" />
+              Cancel all
+            </button>
+          )}
+          {retryable > 0 && (
+            <button
+              onClick={() => onRetry()}
+              className="px-3 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors flex items-center gap-1"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Retry {retryable}
+            </button>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={counts.completed === 0}
+            className="px-3 py-1 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+            title="Download all results as a zip archive"
+          >
+            <Archive className="h-3 w-3" />
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all duration-300"
+            style={{ width: `${total ? (finished / total) * 100 : 0}%` }}
+          />
+        </div>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          {finished} of {total} finished • {counts.completed} done • {counts.failed} failed • {counts.cancelled} cancelled • {batch.model}
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 max-h-[500px] overflow-y-auto">
+        {batch.items.map(item => (
+          <li key={item.id} className="px-3 py-2">
+            <div className="flex items-center gap-3">
+              <StatusIcon status={item.status} />
+              <button
+                onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                disabled={!item.result && !item.error}
+                className="flex-1 flex items-center gap-1 text-left text-sm text-gray-900 dark:text-white truncate disabled:cursor-default"
+                title={item.fileName}
+              >
+                {(item.result || item.error) && (
+                  <ChevronDown className={cn(
+                    "h-3 w-3 text-gray-400 transition-transform flex-shrink-0",
+                    expandedId === item.id && "rotate-180"
+                  )} />
+                )}
+                <span className="truncate">{item.fileName}</span>
+              </button>
+              <span className={cn("text-xs", STATUS_STYLES[item.status].className)}>
+                {STATUS_STYLES[item.status].label}
+                {item.startedAt && item.finishedAt && ` • ${((item.finishedAt - item.startedAt) / 1000).toFixed(1)}s`}
+              </span>
+              {(item.status === 'queued' || item.status === 'running') && (
+                <button
+                  onClick={() => onCancel([item.id])}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                  title="Cancel"
+                >
+                  <Ban className="h-3 w-3 text-gray-600 dark:text-gray-400" />
+                </button>
+              )}
+              {(item.status === 'failed' || item.status === 'cancelled') && (
+                <button
+                  onClick={() => onRetry([item.id])}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                  title="Retry"
+                >
+                  <RotateCcw className="h-3 w-3 text-gray-600 dark:text-gray-400" />
+                </button>
+              )}
+            </div>
+            {expandedId === item.id && (
+              <div className="mt-2 ml-7">
+                {item.error ? (
+                  <ErrorNotice error={{ code: item.errorCode, message: item.error }} className="p-2" />
+                ) : (
+                  <pre className="whitespace-pre-wrap text-sm text-gray-900 dark:text-gray-100 max-h-[200px] overflow-y-auto">
+                    {item.result?.extractedText}
+                  </pre>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
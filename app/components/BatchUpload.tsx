@@ -0,0 +1,138 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Upload, X, Image as ImageIcon } from 'lucide-react';
+import { cn, formatFileSize, IMAGE_EXTENSIONS } from '@/lib/utils';
+
+interface BatchUploadProps {
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  disabled?: boolean;
+}
+
+const MAX_BATCH_SIZE = 200;
+
+export function BatchUpload({ files, onFilesChange, concurrency, onConcurrencyChange, disabled = false }: BatchUploadProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const onDrop = useCallback((acceptedFiles: File[], rejectedFiles: any[]) => {
+    setError(null);
+
+    if (rejectedFiles.length > 0) {
+      setError(`${rejectedFiles.length} file(s) skipped: only images under 10MB are accepted`);
+    }
+
+    const combined = [...files, ...acceptedFiles];
+    if (combined.length > MAX_BATCH_SIZE) {
+      setError(`A batch can contain at most ${MAX_BATCH_SIZE} images`);
+    }
+    onFilesChange(combined.slice(0, MAX_BATCH_SIZE));
+  }, [files, onFilesChange]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'image/*': IMAGE_EXTENSIONS
+    },
+    maxSize: 10 * 1024 * 1024, // 10MB
+    multiple: true,
+    disabled,
+  });
+
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Batch Upload
+        </h2>
+        {files.length > 0 && (
+          <button
+            onClick={() => onFilesChange([])}
+            disabled={disabled}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <div
+        {...getRootProps()}
+        className={cn(
+          "border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors",
+          isDragActive
+            ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+            : "border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500",
+          disabled && "opacity-50 cursor-not-allowed"
+        )}
+      >
+        <input {...getInputProps()} />
+        <Upload className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+        <p className="text-gray-600 dark:text-gray-400 mb-2">
+          {isDragActive
+            ? "Drop the images here"
+            : "Drag & drop images here, or click to select several"}
+        </p>
+        <p className="text-sm text-gray-500 dark:text-gray-500">
+          Supports PNG, JPG, WebP, GIF, BMP, TIFF, HEIC, AVIF (max 10MB each, {MAX_BATCH_SIZE} per batch)
+        </p>
+      </div>
+
+      {files.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {files.length} image{files.length === 1 ? '' : 's'} • {formatFileSize(totalSize)}
+          </p>
+          <ul className="max-h-[200px] overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            {files.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="flex items-center gap-3 px-3 py-2">
+                <ImageIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <span className="flex-1 text-sm text-gray-900 dark:text-white truncate" title={file.name}>
+                  {file.name}
+                </span>
+                <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+                <button
+                  onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                  className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+                  title="Remove"
+                >
+                  <X className="h-3 w-3 text-gray-600 dark:text-gray-300" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <label htmlFor="batch-concurrency" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Parallel requests
+        </label>
+        <select
+          id="batch-concurrency"
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+          disabled={disabled}
+          className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+        >
+          {[1, 2, 3, 4, 6, 8].map(value => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-500">
+          Higher values need more GPU memory
+        </span>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Columns3 } from 'lucide-react';
+import { runFlow } from '@genkit-ai/next/client';
+import type { getAvailableModels } from '@/lib/genkit/flows';
+import { cn } from '@/lib/utils';
+
+type Model = Awaited<ReturnType<typeof getAvailableModels>>['models'][number];
+
+interface CompareModelPickerProps {
+  selected: string[];
+  onSelectedChange: (models: string[]) => void;
+  disabled?: boolean;
+}
+
+// More columns than this no longer fit side by side
+export const MAX_COMPARED_MODELS = 4;
+
+export function CompareModelPicker({ selected, onSelectedChange, disabled = false }: CompareModelPickerProps) {
+  const [models, setModels] = useState<Model[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    runFlow<typeof getAvailableModels>({ url: '/api/models' })
+      .then(result => setModels(result.models.filter(model => model.available)))
+      .catch(error => console.error('Failed to fetch models:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggle = (modelId: string) => {
+    onSelectedChange(
+      selected.includes(modelId)
+        ? selected.filter(id => id !== modelId)
+        : [...selected, modelId]
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse">
+        <div className="h-24 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+        <Columns3 className="h-4 w-4" />
+        Models to compare
+        <span className="font-normal text-xs text-gray-500 dark:text-gray-500">
+          {selected.length} of up to {MAX_COMPARED_MODELS}
+        </span>
+      </label>
+
+      {models.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          No vision models found in Ollama.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {models.map(model => {
+            const checked = selected.includes(model.id);
+            const full = !checked && selected.length >= MAX_COMPARED_MODELS;
+            return (
+              <label
+                key={model.id}
+                className={cn(
+                  "flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors",
+                  checked
+                    ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                    : "border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800",
+                  (disabled || full) && "opacity-50"
+                )}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  disabled={disabled || full}
+                  onChange={() => toggle(model.id)}
+                />
+                <span className="flex-1 min-w-0">
+                  <span className="block font-medium text-gray-900 dark:text-white truncate">{model.name}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-500 truncate">{model.id}</span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Loader2, CheckCircle, XCircle, Ban, Copy, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { diffWords, diffSimilarity, type DiffPart } from '@/lib/diff';
+import type { ComparisonRun } from '@/app/hooks/useModelComparison';
+import { ErrorNotice } from './ErrorNotice';
+
+interface CompareResultsProps {
+  runs: ComparisonRun[];
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function formatMs(ms: number | undefined): string {
+  return ms === undefined ? '–' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) => (
+        <span
+          key={index}
+          className={cn(
+            part.op === 'added' && "bg-green-100 dark:bg-green-900/40 text-green-900 dark:text-green-200",
+            part.op === 'removed' && "bg-red-100 dark:bg-red-900/40 text-red-900 dark:text-red-200 line-through"
+          )}
+        >
+          {part.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function CompareResults({ runs }: CompareResultsProps) {
+  const [baselineModel, setBaselineModel] = useState<string | null>(null);
+  const [showDiff, setShowDiff] = useState(true);
+  const [copiedModel, setCopiedModel] = useState<string | null>(null);
+
+  const baseline = runs.find(run => run.model === baselineModel) ?? runs[0];
+  const isRunning = runs.some(run => run.status === 'running');
+
+  // Diffs are only computed once every stream has finished; re-diffing on each chunk is too slow
+  const diffs = useMemo(() => {
+    if (!showDiff || isRunning || !baseline) return new Map<string, DiffPart[]>();
+    return new Map(
+      runs
+        .filter(run => run.model !== baseline.model && run.status === 'completed')
+        .map(run => [run.model, diffWords(baseline.text, run.text)])
+    );
+  }, [runs, baseline, showDiff, isRunning]);
+
+  const handleCopy = async (run: ComparisonRun) => {
+    await navigator.clipboard.writeText(run.text);
+    setCopiedModel(run.model);
+    setTimeout(() => setCopiedModel(null), 2000);
+  };
+
+  return (
+    <div className="h-full flex flex-col space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Model Comparison
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={showDiff}
+            onChange={(e) => setShowDiff(e.target.checked)}
+          />
+          Highlight differences
+        </label>
+      </div>
+
+      <div
+        className="flex-1 grid gap-3 min-h-0"
+        style={{ gridTemplateColumns: `repeat(${runs.length}, minmax(0, 1fr))` }}
+      >
+        {runs.map(run => {
+          const isBaseline = run.model === baseline?.model;
+          const diff = diffs.get(run.model);
+
+          return (
+            <div
+              key={run.model}
+              className={cn(
+                "flex flex-col min-h-0 rounded-lg border bg-white dark:bg-gray-900",
+                isBaseline && showDiff ? "border-blue-500" : "border-gray-200 dark:border-gray-700"
+              )}
+            >
+              <div className="p-3 border-b border-gray-200 dark:border-gray-700 space-y-1">
+                <div className="flex items-center gap-2">
+                  {run.status === 'running' ? (
+                    <Loader2 className="h-4 w-4 text-blue-600 animate-spin flex-shrink-0" />
+                  ) : run.status === 'completed' ? (
+                    <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
+                  ) : run.status === 'cancelled' ? (
+                    <Ban className="h-4 w-4 text-yellow-500 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+                  )}
+                  <span className="font-medium text-sm text-gray-900 dark:text-white truncate flex-1" title={run.model}>
+                    {run.model}
+                  </span>
+                  <button
+                    onClick={() => handleCopy(run)}
+                    disabled={!run.text}
+                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                    title="Copy"
+                  >
+                    {copiedModel === run.model ? (
+                      <Check className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <Copy className="h-3 w-3 text-gray-600 dark:text-gray-400" />
+                    )}
+                  </button>
+                </div>
+                <dl className="grid grid-cols-2 gap-x-2 text-xs text-gray-600 dark:text-gray-400">
+                  <dt>Total</dt>
+                  <dd className="text-right">{formatMs(run.totalMs)}</dd>
+                  <dt>First token</dt>
+                  <dd className="text-right">{formatMs(run.firstTokenMs)}</dd>
+                  <dt>Output</dt>
+                  <dd className="text-right">{countWords(run.text)} words · {run.text.length} chars</dd>
+                  {diff && (
+                    <>
+                      <dt>Similarity</dt>
+                      <dd className="text-right">{Math.round(diffSimilarity(diff) * 100)}%</dd>
+                    </>
+                  )}
+                </dl>
+                {showDiff && runs.length > 1 && (
+                  <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                    <input
+                      type="radio"
+                      name="compare-baseline"
+                      checked={isBaseline}
+                      onChange={() => setBaselineModel(run.model)}
+                    />
+                    Diff baseline
+                  </label>
+                )}
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-3">
+                {run.error ? (
+                  <ErrorNotice error={run.error} className="p-2" />
+                ) : (
+                  <pre className="whitespace-pre-wrap font-mono text-xs text-gray-800 dark:text-gray-200">
+                    {diff ? <DiffText parts={diff} /> : run.text}
+                  </pre>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
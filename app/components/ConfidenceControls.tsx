@@ -0,0 +1,39 @@
+'use client';
+
+import { Gauge } from 'lucide-react';
+
+interface ConfidenceControlsProps {
+  samples: number;
+  onSamplesChange: (samples: number) => void;
+}
+
+const SAMPLE_COUNTS = [2, 3, 5];
+
+export function ConfidenceControls({ samples, onSamplesChange }: ConfidenceControlsProps) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-2">
+      <label className="flex items-center justify-between gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <span className="flex items-center gap-2">
+          <Gauge className="h-4 w-4" />
+          Confidence check
+        </span>
+        <select
+          value={samples}
+          onChange={(e) => onSamplesChange(Number(e.target.value))}
+          className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-normal"
+        >
+          <option value={0}>Off</option>
+          {SAMPLE_COUNTS.map(count => (
+            <option key={count} value={count}>{count} extra samples</option>
+          ))}
+        </select>
+      </label>
+      {samples > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The image is read {samples} more times and compared with the answer. Words that change between
+          readings are highlighted. Each sample costs another full model run.
+        </p>
+      )}
+    </div>
+  );
+}
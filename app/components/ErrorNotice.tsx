@@ -0,0 +1,26 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { EXTRACTION_ERRORS, type ExtractionErrorInfo } from '@/lib/errors';
+
+interface ErrorNoticeProps {
+  error: ExtractionErrorInfo;
+  className?: string;
+}
+
+// Error message with the recovery hint for its code, when the cause is known
+export function ErrorNotice({ error, className }: ErrorNoticeProps) {
+  const definition = error.code ? EXTRACTION_ERRORS[error.code] : undefined;
+
+  return (
+    <div className={cn("p-4 bg-red-50 dark:bg-red-900/20 rounded-lg space-y-1", className)}>
+      {definition && (
+        <p className="text-sm font-medium text-red-700 dark:text-red-300">{definition.title}</p>
+      )}
+      <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>
+      {definition && (
+        <p className="text-sm text-gray-700 dark:text-gray-300">{definition.hint}</p>
+      )}
+    </div>
+  );
+}
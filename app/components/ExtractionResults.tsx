@@ -1,34 +1,97 @@
 'use client';
 
-import { useState } from 'react';
-import { Copy, Download, FileText, FileJson, FileCode, Check } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Copy, Download, FileText, FileJson, FileCode, Check, Table, Eye, Code } from 'lucide-react';
 import { cn, downloadTextFile } from '@/lib/utils';
+import { StructuredFields } from './StructuredFields';
+import { MarkdownView } from './MarkdownView';
+import { TableGrid } from './TableGrid';
+import { combineSectionTexts, type TextSection } from '@/lib/sections';
+import type { ConfidenceEstimate, TextSpan } from '@/lib/confidence';
+import { isTableData } from '@/lib/tables';
 
 interface ExtractionResultsProps {
   extractedText: string;
-  confidence: string;
+  confidence?: ConfidenceEstimate;
   metadata?: Record<string, any>;
   isLoading?: boolean;
   streamingText?: string;
+  structuredData?: unknown;
+  /** Per-page or per-region results, shown as separate sections. */
+  sections?: TextSection[];
+  /** The extraction failed; any text shown is what streamed before the error. */
+  failed?: boolean;
+  /** The model was asked for markdown, so the rendered markdown view opens first. */
+  isMarkdown?: boolean;
 }
 
-type ViewMode = 'text' | 'json' | 'markdown';
+type ViewMode = 'text' | 'json' | 'markdown' | 'fields';
+
+// Marks words the confidence samples disagreed on
+function HighlightedText({ text, spans }: { text: string; spans: TextSpan[] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const span of spans) {
+    parts.push(text.slice(position, span.start));
+    parts.push(
+      <mark
+        key={span.start}
+        className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm"
+        title={`${Math.round(span.agreement * 100)}% of samples agree`}
+      >
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    position = span.end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
 
 export function ExtractionResults({ 
   extractedText, 
   confidence, 
   metadata, 
   isLoading = false,
-  streamingText = ''
+  streamingText = '',
+  structuredData,
+  sections,
+  failed = false,
+  isMarkdown = false
 }: ExtractionResultsProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('text');
+  const [showMarkdownSource, setShowMarkdownSource] = useState(false);
   const [copied, setCopied] = useState(false);
 
   const displayText = streamingText || extractedText;
+  const hasFields = structuredData !== undefined && structuredData !== null;
+  const hasSections = !!sections?.length && !streamingText;
+  // Span offsets refer to the final text, not the raw stream
+  const lowAgreementSpans = (!streamingText && confidence?.lowAgreementSpans) || [];
+
+  const jsonContent = JSON.stringify(
+    hasSections
+      ? { extractedText: displayText, sections, confidence, metadata }
+      : { extractedText: displayText, confidence, metadata },
+    null,
+    2
+  );
+  const markdownContent = hasSections ? combineSectionTexts(sections!, 'markdown') : displayText;
+  // Arabic and Hebrew read right to left; until the script is detected the browser decides per paragraph
+  const direction: 'ltr' | 'rtl' | 'auto' = metadata?.language?.direction ?? 'auto';
+
+  // Show typed fields by default when a schema was used, and rendered markdown when it was asked for
+  useEffect(() => {
+    setViewMode(current => hasFields ? 'fields' : isMarkdown ? 'markdown' : current === 'fields' ? 'text' : current);
+  }, [hasFields, isMarkdown]);
 
   const handleCopy = async () => {
     const textToCopy = viewMode === 'json' 
-      ? JSON.stringify({ extractedText: displayText, confidence, metadata }, null, 2)
+      ? jsonContent
+      : viewMode === 'fields'
+      ? JSON.stringify(structuredData, null, 2)
+      : viewMode === 'markdown'
+      ? markdownContent
       : displayText;
     
     await navigator.clipboard.writeText(textToCopy);
@@ -38,32 +101,49 @@ export function ExtractionResults({
 
   const handleDownload = () => {
     const content = viewMode === 'json'
-      ? JSON.stringify({ extractedText: displayText, confidence, metadata }, null, 2)
+      ? jsonContent
+      : viewMode === 'fields'
+      ? JSON.stringify(structuredData, null, 2)
+      : viewMode === 'markdown'
+      ? markdownContent
       : displayText;
-    const filename = `extracted-text-${Date.now()}.${viewMode === 'json' ? 'json' : 'txt'}`;
+    const extension = viewMode === 'json' || viewMode === 'fields' ? 'json' : viewMode === 'markdown' ? 'md' : 'txt';
+    const filename = `extracted-text-${Date.now()}.${extension}`;
     downloadTextFile(content, filename);
   };
 
   const formatContent = () => {
+    if (viewMode === 'fields' && hasFields) {
+      return isTableData(structuredData)
+        ? <TableGrid tables={structuredData.tables} />
+        : <StructuredFields data={structuredData} />;
+    }
+
     if (viewMode === 'json') {
       return (
         <pre className="whitespace-pre-wrap font-mono text-sm">
-          {JSON.stringify({ extractedText: displayText, confidence, metadata }, null, 2)}
+          {jsonContent}
         </pre>
       );
     }
 
     if (viewMode === 'markdown') {
-      return (
-        <div className="prose prose-sm dark:prose-invert max-w-none">
-          <pre className="whitespace-pre-wrap">{displayText}</pre>
+      return showMarkdownSource ? (
+        <pre dir={direction} className="whitespace-pre-wrap font-mono text-sm">{markdownContent}</pre>
+      ) : (
+        <div dir={direction}>
+          <MarkdownView markdown={markdownContent} />
         </div>
       );
     }
 
     return (
-      <div className="whitespace-pre-wrap">
-        {displayText}
+      <div dir={direction} className="whitespace-pre-wrap">
+        {lowAgreementSpans.length > 0 ? (
+          <HighlightedText text={displayText} spans={lowAgreementSpans} />
+        ) : (
+          displayText
+        )}
       </div>
     );
   };
@@ -80,6 +160,20 @@ export function ExtractionResults({
         </h2>
         <div className="flex items-center gap-2">
           <div className="flex bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+            {hasFields && (
+              <button
+                onClick={() => setViewMode('fields')}
+                className={cn(
+                  "px-3 py-1 rounded-md text-sm transition-colors flex items-center gap-1",
+                  viewMode === 'fields'
+                    ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow"
+                    : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                )}
+              >
+                <Table className="h-3 w-3" />
+                {isTableData(structuredData) ? 'Table' : 'Fields'}
+              </button>
+            )}
             <button
               onClick={() => setViewMode('text')}
               className={cn(
@@ -117,6 +211,19 @@ export function ExtractionResults({
               Markdown
             </button>
           </div>
+          {viewMode === 'markdown' && (
+            <button
+              onClick={() => setShowMarkdownSource(!showMarkdownSource)}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              title={showMarkdownSource ? 'Show rendered markdown' : 'Show markdown source'}
+            >
+              {showMarkdownSource ? (
+                <Eye className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+              ) : (
+                <Code className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+              )}
+            </button>
+          )}
           <button
             onClick={handleCopy}
             className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
@@ -138,20 +245,40 @@ export function ExtractionResults({
         </div>
       </div>
 
-      {confidence && confidence !== "low" && !isLoading && (
+      {metadata?.cancelled && !isLoading && (
+        <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200">
+            Extraction cancelled. The text below is what was received before stopping.
+          </p>
+        </div>
+      )}
+
+      {failed && !isLoading && (
+        <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200">
+            Extraction failed. The text below is what was received before the error and may be incomplete.
+          </p>
+        </div>
+      )}
+
+      {confidence && !isLoading && (
         <div className="flex items-center gap-2">
           <span className="text-sm text-gray-600 dark:text-gray-400">
             Confidence:
           </span>
           <span className={cn(
             "px-2 py-1 rounded-full text-xs font-medium",
-            confidence === "high" 
+            confidence.level === "high" 
               ? "bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300"
-              : confidence === "medium"
+              : confidence.level === "medium"
               ? "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-300"
               : "bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300"
           )}>
-            {confidence}
+            {confidence.level} · {Math.round(confidence.score * 100)}%
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {confidence.samples} samples
+            {lowAgreementSpans.length > 0 && viewMode === 'text' && ' · highlighted words need checking'}
           </span>
         </div>
       )}
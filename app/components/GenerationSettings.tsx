@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { SlidersHorizontal, Save, Trash2, RotateCcw } from 'lucide-react';
+import { useLocalStorage } from '@/app/hooks/useLocalStorage';
+import {
+  BUILT_IN_PROFILES,
+  DEFAULT_TEMPERATURE,
+  generationOptionsSchema,
+  type GenerationOptions,
+  type GenerationProfile,
+} from '@/lib/generation';
+
+interface GenerationSettingsProps {
+  model: string;
+  options: GenerationOptions;
+  onOptionsChange: (options: GenerationOptions) => void;
+}
+
+type NumericOption = Exclude<keyof GenerationOptions, 'keepAlive'>;
+
+// Empty fields leave the value to the model (placeholder shows Ollama's default)
+const NUMERIC_FIELDS: { key: NumericOption; label: string; placeholder: string; step: number; min?: number; max?: number }[] = [
+  { key: 'temperature', label: 'Temperature', placeholder: String(DEFAULT_TEMPERATURE), step: 0.05, min: 0, max: 2 },
+  { key: 'topP', label: 'Top P', placeholder: '0.9', step: 0.05, min: 0, max: 1 },
+  { key: 'topK', label: 'Top K', placeholder: '40', step: 1, min: 1 },
+  { key: 'seed', label: 'Seed', placeholder: 'random', step: 1 },
+  { key: 'numCtx', label: 'Context window', placeholder: 'model default', step: 256, min: 256 },
+  { key: 'numPredict', label: 'Max tokens', placeholder: 'no limit', step: 1, min: -1 },
+  { key: 'repeatPenalty', label: 'Repeat penalty', placeholder: '1.1', step: 0.05, min: 0, max: 2 },
+];
+
+const inputClassName = "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm";
+
+function sameOptions(a: GenerationOptions, b: GenerationOptions): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof GenerationOptions)[]);
+  return [...keys].every(key => a[key] === b[key]);
+}
+
+export function GenerationSettings({ model, options, onOptionsChange }: GenerationSettingsProps) {
+  // Saved profiles by model id
+  const [savedProfiles, setSavedProfiles] = useLocalStorage<Record<string, GenerationProfile[]>>('generationProfiles', {});
+  const [profileName, setProfileName] = useState('');
+
+  const modelProfiles = savedProfiles[model] ?? [];
+  const profiles = [...BUILT_IN_PROFILES, ...modelProfiles];
+  const activeProfile = profiles.find(profile => sameOptions(profile.options, options));
+  const activeCount = Object.keys(options).length;
+  const keepAliveError = options.keepAlive !== undefined
+    ? generationOptionsSchema.shape.keepAlive.safeParse(options.keepAlive).error?.issues[0]?.message
+    : undefined;
+
+  const update = <K extends keyof GenerationOptions>(key: K, value: GenerationOptions[K]) => {
+    const { [key]: _previous, ...rest } = options;
+    onOptionsChange(value === undefined ? rest : { ...rest, [key]: value });
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name || !model) return;
+    setSavedProfiles(prev => ({
+      ...prev,
+      [model]: [...(prev[model] ?? []).filter(profile => profile.name !== name), { name, options }],
+    }));
+    setProfileName('');
+  };
+
+  const deleteProfile = (name: string) => {
+    setSavedProfiles(prev => ({ ...prev, [model]: (prev[model] ?? []).filter(profile => profile.name !== name) }));
+  };
+
+  return (
+    <details className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+      <summary className="cursor-pointer font-medium text-gray-900 dark:text-white">
+        <span className="inline-flex items-center gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Advanced Settings
+          <span className="font-normal text-xs text-gray-500 dark:text-gray-400">
+            {activeProfile ? activeProfile.name : activeCount > 0 ? `${activeCount} changed` : 'model defaults'}
+          </span>
+        </span>
+      </summary>
+
+      <div className="mt-4 space-y-3 text-sm text-gray-700 dark:text-gray-300">
+        <div className="flex items-end gap-2">
+          <label className="flex-1 flex flex-col gap-1">
+            Profile
+            <select
+              value={activeProfile?.name ?? ''}
+              onChange={(e) => {
+                const profile = profiles.find(p => p.name === e.target.value);
+                onOptionsChange(profile ? profile.options : {});
+              }}
+              className={inputClassName}
+            >
+              <option value="">{activeCount > 0 ? 'Custom' : 'Model defaults'}</option>
+              <optgroup label="Built-in">
+                {BUILT_IN_PROFILES.map(profile => (
+                  <option key={profile.name} value={profile.name}>{profile.name}</option>
+                ))}
+              </optgroup>
+              {modelProfiles.length > 0 && (
+                <optgroup label={`Saved for ${model}`}>
+                  {modelProfiles.map(profile => (
+                    <option key={profile.name} value={profile.name}>{profile.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </label>
+          {activeProfile && modelProfiles.includes(activeProfile) && (
+            <button
+              onClick={() => deleteProfile(activeProfile.name)}
+              className="p-2 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+              title="Delete profile"
+            >
+              <Trash2 className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+            </button>
+          )}
+          <button
+            onClick={() => onOptionsChange({})}
+            disabled={activeCount === 0}
+            className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            title="Reset to model defaults"
+          >
+            <RotateCcw className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {NUMERIC_FIELDS.map(({ key, label, placeholder, step, min, max }) => (
+            <label key={key} className="flex flex-col gap-1">
+              {label}
+              <input
+                type="number"
+                value={options[key] ?? ''}
+                placeholder={placeholder}
+                step={step}
+                min={min}
+                max={max}
+                onChange={(e) => update(key, e.target.value === '' ? undefined : Number(e.target.value))}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+          <label className="flex flex-col gap-1">
+            Keep alive
+            <input
+              type="text"
+              value={options.keepAlive ?? ''}
+              placeholder="5m"
+              onChange={(e) => update('keepAlive', e.target.value.trim() || undefined)}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        {keepAliveError && (
+          <p className="text-xs text-red-600 dark:text-red-400">{keepAliveError}</p>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveProfile()}
+            placeholder={model ? `Save these settings for ${model} as...` : 'Select a model to save profiles'}
+            disabled={!model}
+            className={inputClassName}
+          />
+          <button
+            onClick={saveProfile}
+            disabled={!model || !profileName.trim()}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            <Save className="h-4 w-4" />
+            Save
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Search, Trash2, RotateCcw, Archive, FileText, Loader2, History } from 'lucide-react';
+import { cn, downloadBlob, formatFileSize } from '@/lib/utils';
+import { createZipArchive, uniqueFileName } from '@/lib/archive';
+import { EMPTY_HISTORY_FILTERS, filterHistoryEntries, type HistoryEntry, type HistoryFilters } from '@/lib/history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  error: string | null;
+  selectedId: string | null;
+  onOpen: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (ids: string[]) => void;
+  onClear: () => void;
+}
+
+const inputClassName = "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm";
+
+// Per-entry text files plus a JSON index with prompts and metadata
+function buildArchive(entries: HistoryEntry[]): Blob {
+  const taken = new Set<string>(['history.json']);
+  const files: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const base = entry.fileName.replace(/\.[^.]+$/, '') || 'image';
+    files[uniqueFileName(`${base}.txt`, taken)] = entry.extractedText;
+  }
+
+  files['history.json'] = JSON.stringify(
+    entries.map(({ thumbnail: _thumbnail, ...entry }) => ({
+      ...entry,
+      createdAt: new Date(entry.createdAt).toISOString(),
+    })),
+    null,
+    2
+  );
+
+  return createZipArchive(files);
+}
+
+export function HistoryPanel({ entries, isLoading, error, selectedId, onOpen, onRerun, onDelete, onClear }: HistoryPanelProps) {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+
+  const models = useMemo(() => [...new Set(entries.map(entry => entry.model))].sort(), [entries]);
+  const visible = useMemo(() => filterHistoryEntries(entries, filters), [entries, filters]);
+  const isFiltered = visible.length !== entries.length;
+
+  const update = (changes: Partial<HistoryFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleExport = () => {
+    downloadBlob(buildArchive(visible), `extraction-history-${Date.now()}.zip`);
+  };
+
+  const handleDeleteVisible = () => {
+    if (!isFiltered) {
+      if (confirm(`Delete all ${entries.length} history entries?`)) onClear();
+    } else if (confirm(`Delete ${visible.length} matching history entries?`)) {
+      onDelete(visible.map(entry => entry.id));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+          <span className="font-normal text-xs text-gray-500 dark:text-gray-500">
+            {isFiltered ? `${visible.length} of ${entries.length}` : entries.length} saved in this browser
+          </span>
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleExport}
+            disabled={visible.length === 0}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Archive className="h-3 w-3" />
+            Export
+          </button>
+          <button
+            onClick={handleDeleteVisible}
+            disabled={visible.length === 0}
+            className="text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Trash2 className="h-3 w-3" />
+            {isFiltered ? 'Delete matching' : 'Clear all'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+        <label className="col-span-2 relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-400" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search text, prompts and file names"
+            className={cn(inputClassName, "w-full pl-7")}
+          />
+        </label>
+        <select
+          value={filters.model}
+          onChange={(e) => update({ model: e.target.value })}
+          className={inputClassName}
+          aria-label="Filter by model"
+        >
+          <option value="">All models</option>
+          {models.map(model => (
+            <option key={model} value={model}>{model}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1">
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => update({ from: e.target.value })}
+            className={cn(inputClassName, "min-w-0 flex-1")}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => update({ to: e.target.value })}
+            className={cn(inputClassName, "min-w-0 flex-1")}
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+          {entries.length === 0 ? 'Extractions you run will be saved here.' : 'No entries match these filters.'}
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {visible.map(entry => (
+            <li
+              key={entry.id}
+              className={cn(
+                "flex gap-3 p-2 rounded-lg border transition-colors",
+                entry.id === selectedId
+                  ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                  : "border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+              )}
+            >
+              <button
+                onClick={() => onOpen(entry)}
+                className="w-16 h-16 flex-shrink-0 flex items-center justify-center rounded bg-gray-100 dark:bg-gray-800 overflow-hidden"
+                title="Show result"
+              >
+                {entry.thumbnail ? (
+                  <img src={entry.thumbnail} alt={entry.fileName} className="max-w-full max-h-full object-contain" />
+                ) : (
+                  <FileText className="h-6 w-6 text-gray-400" />
+                )}
+              </button>
+              <div className="flex-1 min-w-0">
+                <button onClick={() => onOpen(entry)} className="block w-full text-left">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{entry.fileName}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-500">
+                    {new Date(entry.createdAt).toLocaleString()} · {entry.model} · {(entry.processingTime / 1000).toFixed(1)}s · {formatFileSize(entry.fileSize)}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2 mt-1">
+                    {entry.extractedText || 'No text extracted'}
+                  </p>
+                </button>
+              </div>
+              <div className="flex flex-col gap-1">
+                <button
+                  onClick={() => onRerun(entry)}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                  title="Re-run with another model or prompt"
+                >
+                  <RotateCcw className="h-3 w-3 text-gray-600 dark:text-gray-400" />
+                </button>
+                <button
+                  onClick={() => onDelete([entry.id])}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="h-3 w-3 text-gray-600 dark:text-gray-400" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
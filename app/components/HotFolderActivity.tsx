@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, XCircle, SkipForward, ChevronDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ErrorNotice } from './ErrorNotice';
+import type { HotFolderActivity as Activity } from '@/lib/hotfolder';
+
+interface HotFolderActivityProps {
+  recent: Activity[];
+}
+
+const STATUS_STYLES: Record<Activity['status'], { label: string; className: string }> = {
+  done: { label: 'Done', className: 'text-green-600 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'text-red-600 dark:text-red-400' },
+  skipped: { label: 'Already processed', className: 'text-gray-600 dark:text-gray-400' },
+};
+
+function StatusIcon({ status }: { status: Activity['status'] }) {
+  switch (status) {
+    case 'done':
+      return <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />;
+    case 'skipped':
+      return <SkipForward className="h-4 w-4 text-gray-400 flex-shrink-0" />;
+  }
+}
+
+export function HotFolderActivity({ recent }: HotFolderActivityProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        Recent Files
+      </h2>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 max-h-[600px] overflow-y-auto">
+        {recent.map(activity => {
+          const key = `${activity.folder}/${activity.fileName}/${activity.finishedAt}`;
+          const details = activity.error || activity.preview || activity.output;
+          return (
+            <li key={key} className="px-3 py-2">
+              <div className="flex items-center gap-3">
+                <StatusIcon status={activity.status} />
+                <button
+                  onClick={() => setExpanded(expanded === key ? null : key)}
+                  disabled={!details}
+                  className="flex-1 flex items-center gap-1 text-left text-sm text-gray-900 dark:text-white truncate disabled:cursor-default"
+                  title={activity.fileName}
+                >
+                  {details && (
+                    <ChevronDown className={cn(
+                      "h-3 w-3 text-gray-400 transition-transform flex-shrink-0",
+                      expanded === key && "rotate-180"
+                    )} />
+                  )}
+                  <span className="truncate">{activity.fileName}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">· {activity.folder}</span>
+                </button>
+                <span className={cn(
+                  "text-xs whitespace-nowrap",
+                  activity.warning ? 'text-yellow-600 dark:text-yellow-400' : STATUS_STYLES[activity.status].className
+                )}>
+                  {activity.warning ? 'Partly done' : STATUS_STYLES[activity.status].label}
+                  {activity.processingTime !== undefined && ` • ${(activity.processingTime / 1000).toFixed(1)}s`}
+                  {` • ${new Date(activity.finishedAt).toLocaleTimeString()}`}
+                </span>
+              </div>
+              {expanded === key && (
+                <div className="mt-2 ml-7 space-y-1">
+                  {activity.error ? (
+                    <ErrorNotice error={{ code: activity.errorCode, message: activity.error }} className="p-2" />
+                  ) : (
+                    <>
+                      {activity.warning && (
+                        <p className="text-xs text-yellow-600 dark:text-yellow-400">{activity.warning}</p>
+                      )}
+                      {activity.output && (
+                        <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate" title={activity.output}>
+                          {activity.output}
+                        </p>
+                      )}
+                      {activity.preview && (
+                        <pre className="whitespace-pre-wrap text-sm text-gray-900 dark:text-gray-100 max-h-[200px] overflow-y-auto">
+                          {activity.preview}
+                        </pre>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { FolderInput, Loader2, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { HotFolderOverview } from '@/app/hooks/useHotFolderStatus';
+
+interface HotFolderPanelProps {
+  overview: HotFolderOverview | null;
+  error: string | null;
+}
+
+const EXAMPLE_CONFIG = `{
+  "folders": [
+    { "name": "Receipts", "input": "/srv/scans/receipts", "preset": "receipt", "model": "gemma3:4b" }
+  ]
+}`;
+
+export function HotFolderPanel({ overview, error }: HotFolderPanelProps) {
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      </div>
+    );
+  }
+  if (!overview) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading hot folders...
+      </div>
+    );
+  }
+  if (!overview.configured) {
+    return (
+      <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-2 text-sm text-gray-700 dark:text-gray-300">
+        <p className="font-medium">No hot folders configured</p>
+        <p>
+          Create <code>hotfolders.json</code> next to the app (or point <code>HOT_FOLDERS_CONFIG</code> at it) and
+          start the watcher with <code>npm run hotfolder</code>. Files dropped into an input folder are extracted
+          automatically.
+        </p>
+        <pre className="text-xs bg-white dark:bg-gray-900 rounded p-2 overflow-x-auto">{EXAMPLE_CONFIG}</pre>
+      </div>
+    );
+  }
+
+  const { status, running } = overview;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Hot Folders</h2>
+        <span className={cn(
+          "px-2 py-0.5 rounded-full text-xs flex items-center gap-1",
+          running
+            ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
+            : "bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
+        )}>
+          <span className={cn("h-2 w-2 rounded-full", running ? "bg-green-500" : "bg-gray-400")} />
+          {running ? 'Watching' : 'Stopped'}
+        </span>
+      </div>
+
+      {overview.error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg text-sm text-red-600 dark:text-red-400">
+          {overview.error}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {running && status
+          ? `Watcher running since ${new Date(status.startedAt).toLocaleString()}, checking every ${status.pollIntervalSeconds}s`
+          : status
+            ? `Last seen ${new Date(status.stoppedAt ?? status.updatedAt).toLocaleString()}. Start it with npm run hotfolder.`
+            : 'The watcher has not run yet. Start it with npm run hotfolder.'}
+      </p>
+
+      {status?.folders.map(folder => (
+        <div key={folder.name} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <FolderInput className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+            <span className="font-medium text-sm text-gray-900 dark:text-white">{folder.name}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              {folder.model}{folder.preset && ` · ${folder.preset}`} · {folder.outputFormat}
+            </span>
+          </div>
+          <dl className="grid grid-cols-[4rem_1fr] gap-x-2 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+            <dt>Input</dt>
+            <dd className="font-mono truncate" title={folder.input}>{folder.input}</dd>
+            <dt>Output</dt>
+            <dd className="font-mono truncate" title={folder.output}>{folder.output}</dd>
+          </dl>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            {folder.pending} waiting • {folder.processed} done • {folder.failed} failed
+          </p>
+          {running && folder.processing && (
+            <p className="text-xs text-blue-600 dark:text-blue-400 flex items-center gap-1 truncate">
+              <Loader2 className="h-3 w-3 animate-spin flex-shrink-0" />
+              Extracting {folder.processing}
+            </p>
+          )}
+          {folder.lastError && (
+            <p className="text-xs text-red-600 dark:text-red-400 flex items-start gap-1">
+              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {folder.lastError}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
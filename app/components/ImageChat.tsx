@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { MessageSquare, Send, Square, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ChatMessage } from '@/lib/chat';
+import type { GenerationOptions } from '@/lib/generation';
+import { useImageChat } from '@/app/hooks/useImageChat';
+import { MarkdownView } from './MarkdownView';
+import { ErrorNotice } from './ErrorNotice';
+
+interface ImageChatProps {
+  image: File;
+  model: string;
+  /** First extraction of the image, sent along as context. */
+  extractedText: string;
+  generation?: GenerationOptions;
+  /** Conversation to resume; read once, so give the component a new key for another session. */
+  initialMessages?: ChatMessage[];
+  onMessagesChange?: (messages: ChatMessage[]) => void;
+}
+
+// Follow-up questions about the current image, answered by the selected vision model
+export function ImageChat({ image, model, extractedText, generation, initialMessages = [], onMessagesChange }: ImageChatProps) {
+  const { messages, isAnswering, error, ask, cancel } = useImageChat(initialMessages, onMessagesChange);
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages]);
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text || !model || isAnswering) return;
+    setQuestion('');
+    // Put the question back if it wasn't answered
+    if (!(await ask(text, { image, model, extractedText, generation }))) {
+      setQuestion(current => current || text);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <MessageSquare className="h-4 w-4" />
+        Ask about this image
+      </div>
+
+      {messages.length > 0 && (
+        <div className="max-h-[400px] overflow-y-auto space-y-2">
+          {messages.map((message, i) => (
+            <div key={i} className={cn("flex", message.role === 'user' ? "justify-end" : "justify-start")}>
+              <div
+                dir="auto"
+                className={cn(
+                  "max-w-[85%] rounded-lg px-3 py-2 text-sm",
+                  message.role === 'user'
+                    ? "bg-blue-600 text-white whitespace-pre-wrap"
+                    : "bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-gray-100"
+                )}
+              >
+                {message.role === 'user' ? (
+                  message.text
+                ) : message.text ? (
+                  <>
+                    <MarkdownView markdown={message.text} />
+                    {message.model && (
+                      <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">{message.model}</p>
+                    )}
+                  </>
+                ) : (
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                )}
+              </div>
+            </div>
+          ))}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      {error && <ErrorNotice error={error} />}
+
+      <div className="flex gap-2">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter asks; Shift+Enter starts a new line
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleAsk();
+            }
+          }}
+          rows={1}
+          placeholder={"e.g. What's the total on this receipt?"}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+        />
+        {isAnswering ? (
+          <button
+            onClick={cancel}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 transition-colors flex items-center gap-1"
+          >
+            <Square className="h-3 w-3" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={!question.trim() || !model}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+            title={model ? `Ask ${model}` : 'Select a model first'}
+          >
+            <Send className="h-3 w-3" />
+            Ask
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
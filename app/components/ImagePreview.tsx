@@ -1,19 +1,38 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ZoomIn, ZoomOut, RotateCw } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { ZoomIn, ZoomOut, RotateCw, SquareDashedMousePointer } from 'lucide-react';
 import Image from 'next/image';
+import { cn, isPdfFile } from '@/lib/utils';
+import { MIN_REGION_SIZE, defaultRegionLabel, type Region } from '@/lib/regions';
 
 interface ImagePreviewProps {
   file: File | null;
+  /** Controlled rotation; when set, rotating changes what is sent to the model. */
+  rotation?: number;
+  onRotationChange?: (rotation: number) => void;
+  /** Regions of interest drawn on the image; drawing is enabled when onRegionsChange is set. */
+  regions?: Region[];
+  onRegionsChange?: (regions: Region[]) => void;
 }
 
-export function ImagePreview({ file }: ImagePreviewProps) {
+type Point = { x: number; y: number };
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export function ImagePreview({ file, rotation: controlledRotation, onRotationChange, regions = [], onRegionsChange }: ImagePreviewProps) {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [zoom, setZoom] = useState(100);
-  const [rotation, setRotation] = useState(0);
+  const [internalRotation, setInternalRotation] = useState(0);
+  const rotation = controlledRotation ?? internalRotation;
+  const [previewFailed, setPreviewFailed] = useState(false);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
+    setPreviewFailed(false);
     if (file) {
       const url = URL.createObjectURL(file);
       setImageUrl(url);
@@ -32,13 +51,88 @@ export function ImagePreview({ file }: ImagePreviewProps) {
   };
 
   const handleRotate = () => {
-    setRotation(prev => (prev + 90) % 360);
+    const next = (rotation + 90) % 360;
+    setInternalRotation(next);
+    onRotationChange?.(next);
+  };
+
+  // Maps a pointer position to fractions of the unrotated image by undoing zoom and rotation
+  const toImagePoint = (clientX: number, clientY: number): Point | null => {
+    const overlay = overlayRef.current;
+    if (!overlay) return null;
+
+    const rect = overlay.getBoundingClientRect();
+    const scale = zoom / 100;
+    const radians = (-rotation * Math.PI) / 180;
+    const dx = clientX - (rect.left + rect.width / 2);
+    const dy = clientY - (rect.top + rect.height / 2);
+    const x = (dx * Math.cos(radians) - dy * Math.sin(radians)) / scale;
+    const y = (dx * Math.sin(radians) + dy * Math.cos(radians)) / scale;
+
+    return {
+      x: clamp(x / overlay.offsetWidth + 0.5),
+      y: clamp(y / overlay.offsetHeight + 0.5),
+    };
+  };
+
+  const toRegion = (a: Point, b: Point): Omit<Region, 'label'> => ({
+    left: Math.min(a.x, b.x),
+    top: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toImagePoint(e.clientX, e.clientY);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    setDragEnd(toImagePoint(e.clientX, e.clientY));
   };
 
+  const handlePointerUp = () => {
+    if (dragStart && dragEnd) {
+      const region = toRegion(dragStart, dragEnd);
+      if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+        onRegionsChange?.([...regions, { label: defaultRegionLabel(regions.length), ...region }]);
+      }
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const draft = dragStart && dragEnd ? toRegion(dragStart, dragEnd) : null;
+  const canDraw = !!onRegionsChange && !previewFailed;
+
   if (!imageUrl || !file) {
     return null;
   }
 
+  // PDFs are shown with the browser's built-in viewer; pages are rendered server-side for extraction
+  if (isPdfFile(file)) {
+    return (
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Preview
+        </span>
+        <object
+          data={imageUrl}
+          type="application/pdf"
+          className="w-full h-[230px] rounded-lg bg-white dark:bg-gray-800"
+        >
+          <p className="p-4 text-sm text-gray-600 dark:text-gray-400">
+            PDF preview is not available in this browser.
+          </p>
+        </object>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
@@ -71,6 +165,21 @@ export function ImagePreview({ file }: ImagePreviewProps) {
           >
             <RotateCw className="h-3 w-3 text-gray-600 dark:text-gray-400" />
           </button>
+          {canDraw && (
+            <button
+              onClick={() => setIsDrawing(prev => !prev)}
+              className={cn(
+                "p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors",
+                isDrawing && "bg-blue-100 dark:bg-blue-900/40"
+              )}
+              title={isDrawing ? 'Stop drawing regions' : 'Draw regions to extract'}
+            >
+              <SquareDashedMousePointer className={cn(
+                "h-3 w-3",
+                isDrawing ? "text-blue-600 dark:text-blue-400" : "text-gray-600 dark:text-gray-400"
+              )} />
+            </button>
+          )}
         </div>
       </div>
 
@@ -84,12 +193,61 @@ export function ImagePreview({ file }: ImagePreviewProps) {
               width: 'fit-content',
             }}
           >
-            <img
-              src={imageUrl}
-              alt="Preview"
-              className="max-w-full h-auto rounded"
-              style={{ maxHeight: '200px', objectFit: 'contain' }}
-            />
+            {previewFailed ? (
+              // Browsers can't display TIFF or HEIC; the server converts them before extraction
+              <p className="p-4 text-sm text-gray-600 dark:text-gray-400">
+                Preview is not available for this format. It will be converted on the server.
+              </p>
+            ) : (
+              <div className="relative">
+                <img
+                  src={imageUrl}
+                  alt="Preview"
+                  className="max-w-full h-auto rounded"
+                  style={{ maxHeight: '200px', objectFit: 'contain' }}
+                  onError={() => setPreviewFailed(true)}
+                  draggable={false}
+                />
+                {canDraw && (
+                  <div
+                    ref={overlayRef}
+                    className={cn("absolute inset-0 touch-none", isDrawing && "cursor-crosshair")}
+                    onPointerDown={isDrawing ? handlePointerDown : undefined}
+                    onPointerMove={isDrawing ? handlePointerMove : undefined}
+                    onPointerUp={isDrawing ? handlePointerUp : undefined}
+                    onPointerCancel={isDrawing ? handlePointerUp : undefined}
+                  >
+                    {regions.map((region, index) => (
+                      <div
+                        key={index}
+                        className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+                        style={{
+                          left: `${region.left * 100}%`,
+                          top: `${region.top * 100}%`,
+                          width: `${region.width * 100}%`,
+                          height: `${region.height * 100}%`,
+                        }}
+                      >
+                        <span className="absolute -top-px left-0 px-1 text-[10px] leading-tight bg-blue-500 text-white truncate max-w-full">
+                          {region.label}
+                        </span>
+                      </div>
+                    ))}
+                    {draft && (
+                      <div
+                        className="absolute border-2 border-dashed border-blue-500 pointer-events-none"
+                        style={{
+                          left: `${draft.left * 100}%`,
+                          top: `${draft.top * 100}%`,
+                          width: `${draft.width * 100}%`,
+                          height: `${draft.height * 100}%`,
+                        }}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -2,8 +2,8 @@
 
 import { useCallback, useState, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, X, Link, Image as ImageIcon } from 'lucide-react';
-import { cn, formatFileSize } from '@/lib/utils';
+import { Upload, X, Link, Image as ImageIcon, FileText } from 'lucide-react';
+import { cn, formatFileSize, IMAGE_EXTENSIONS, isPdfFile } from '@/lib/utils';
 
 interface ImageUploadProps {
   onImageSelect: (file: File | null) => void;
@@ -21,9 +21,9 @@ export function ImageUpload({ onImageSelect, currentImage }: ImageUploadProps) {
     if (rejectedFiles.length > 0) {
       const error = rejectedFiles[0].errors[0];
       if (error.code === 'file-too-large') {
-        setError('Image size must be less than 10MB');
+        setError('Images must be less than 10MB and PDFs less than 25MB');
       } else if (error.code === 'file-invalid-type') {
-        setError('Only image files are accepted');
+        setError('Only image files and PDF documents are accepted');
       }
       return;
     }
@@ -36,10 +36,14 @@ export function ImageUpload({ onImageSelect, currentImage }: ImageUploadProps) {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp']
+      'image/*': IMAGE_EXTENSIONS,
+      'application/pdf': ['.pdf']
     },
-    maxSize: 10 * 1024 * 1024, // 10MB
-    multiple: false
+    maxSize: 25 * 1024 * 1024, // 25MB for PDFs, images are checked below
+    multiple: false,
+    validator: (file) => !isPdfFile(file) && file.size > 10 * 1024 * 1024
+      ? { code: 'file-too-large', message: 'Image size must be less than 10MB' }
+      : null,
   });
 
   const handleUrlSubmit = async () => {
@@ -130,7 +134,11 @@ export function ImageUpload({ onImageSelect, currentImage }: ImageUploadProps) {
           </button>
           
           <div className="flex items-center gap-4">
-            <ImageIcon className="h-12 w-12 text-gray-400" />
+            {isPdfFile(currentImage) ? (
+              <FileText className="h-12 w-12 text-gray-400" />
+            ) : (
+              <ImageIcon className="h-12 w-12 text-gray-400" />
+            )}
             <div>
               <p className="font-medium text-gray-900 dark:text-white">
                 {currentImage.name}
@@ -155,11 +163,11 @@ export function ImageUpload({ onImageSelect, currentImage }: ImageUploadProps) {
           <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
           <p className="text-gray-600 dark:text-gray-400 mb-2">
             {isDragActive
-              ? "Drop the image here"
-              : "Drag & drop an image here, or click to select"}
+              ? "Drop the file here"
+              : "Drag & drop an image or PDF here, or click to select"}
           </p>
           <p className="text-sm text-gray-500 dark:text-gray-500">
-            Supports PNG, JPG, JPEG, GIF, WebP (max 10MB)
+            Supports PNG, JPG, WebP, GIF, BMP, TIFF, HEIC, AVIF (max 10MB) and PDF (max 25MB)
           </p>
           <p className="text-xs text-gray-500 dark:text-gray-500 mt-2">
             💡 Tip: You can also paste images with Ctrl/Cmd + V
@@ -0,0 +1,27 @@
+'use client';
+
+import { FileCode } from 'lucide-react';
+
+interface LayoutControlsProps {
+  preserveLayout: boolean;
+  onPreserveLayoutChange: (preserveLayout: boolean) => void;
+}
+
+export function LayoutControls({ preserveLayout, onPreserveLayoutChange }: LayoutControlsProps) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={preserveLayout}
+          onChange={(e) => onPreserveLayoutChange(e.target.checked)}
+        />
+        <FileCode className="h-4 w-4" />
+        Preserve layout as Markdown
+        <span className="font-normal text-xs text-gray-500 dark:text-gray-500">
+          keeps headings, lists and tables
+        </span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+// Tailwind resets element styles, so every element the model may produce is styled here
+const components: Components = {
+  h1: ({ node: _node, ...props }) => <h1 className="text-2xl font-bold mt-4 mb-2 first:mt-0" {...props} />,
+  h2: ({ node: _node, ...props }) => <h2 className="text-xl font-semibold mt-4 mb-2 first:mt-0" {...props} />,
+  h3: ({ node: _node, ...props }) => <h3 className="text-lg font-semibold mt-3 mb-1 first:mt-0" {...props} />,
+  h4: ({ node: _node, ...props }) => <h4 className="font-semibold mt-3 mb-1 first:mt-0" {...props} />,
+  p: ({ node: _node, ...props }) => <p className="my-2" {...props} />,
+  ul: ({ node: _node, ...props }) => <ul className="list-disc ps-6 my-2 space-y-1" {...props} />,
+  ol: ({ node: _node, ...props }) => <ol className="list-decimal ps-6 my-2 space-y-1" {...props} />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote className="border-s-4 border-gray-300 dark:border-gray-600 ps-3 my-2 text-gray-600 dark:text-gray-400" {...props} />
+  ),
+  a: ({ node: _node, ...props }) => (
+    <a className="text-blue-600 dark:text-blue-400 underline" target="_blank" rel="noopener noreferrer" {...props} />
+  ),
+  hr: () => <hr className="my-4 border-gray-300 dark:border-gray-600" />,
+  table: ({ node: _node, ...props }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full border-collapse text-sm" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => (
+    <th className="border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-800 px-2 py-1 text-start font-semibold" {...props} />
+  ),
+  td: ({ node: _node, ...props }) => <td className="border border-gray-300 dark:border-gray-600 px-2 py-1 align-top" {...props} />,
+  pre: ({ node: _node, ...props }) => (
+    <pre className="my-2 p-3 rounded-lg bg-gray-100 dark:bg-gray-800 overflow-x-auto text-sm font-mono" {...props} />
+  ),
+  code: ({ node: _node, ...props }) => <code className="font-mono text-sm" {...props} />,
+};
+
+/**
+ * Renders markdown as HTML. Raw HTML in the source is never rendered and
+ * unsafe link targets (e.g. javascript:) are dropped.
+ */
+export function MarkdownView({ markdown }: { markdown: string }) {
+  return (
+    <div className="break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+}
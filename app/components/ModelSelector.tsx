@@ -1,34 +1,84 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ChevronDown, AlertCircle, CheckCircle, Download } from 'lucide-react';
+import { ChevronDown, AlertCircle, CheckCircle, Download, Trash2, X, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useLocalStorage } from '@/app/hooks/useLocalStorage';
-import { runFlow } from '@genkit-ai/next/client';
-import type { getAvailableModels } from '@/lib/genkit/flows';
-
-interface Model {
-  id: string;
-  name: string;
-  description: string;
-  size: string;
-  available: boolean;
-}
+import { useOllamaModels, type ModelInfo, type ModelDetails, type PullState } from '@/app/hooks/useOllamaModels';
+import { parseExtractionError } from '@/lib/errors';
 
 interface ModelSelectorProps {
   onModelSelect: (modelId: string) => void;
   currentModel: string;
 }
 
+// Size on disk, parameter count and quantization, as far as they are known
+function describeModel(model: ModelInfo): string {
+  return [model.size, model.parameterSize, model.quantization].filter(Boolean).join(' · ');
+}
+
+function PullProgress({ pull, onCancel, onDismiss }: { pull: PullState; onCancel: () => void; onDismiss: () => void }) {
+  if (pull.error) {
+    return (
+      <div className="flex items-start gap-2 text-sm text-red-700 dark:text-red-300">
+        <span className="flex-1">{pull.error}</span>
+        <button onClick={onDismiss} className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/40" title="Dismiss">
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        <span className="flex-1 truncate">{pull.status}{pull.percent !== undefined && ` · ${pull.percent}%`}</span>
+        <button onClick={onCancel} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700" title="Cancel download">
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+      <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${pull.percent ?? 0}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function formatParameterCount(count: number): string {
+  return count >= 1e9 ? `${(count / 1e9).toFixed(1)}B` : `${Math.round(count / 1e6)}M`;
+}
+
+function ModelDetailsList({ details, visionReason }: { details: ModelDetails; visionReason?: string }) {
+  const rows: [string, string | undefined][] = [
+    ['Vision support', visionReason],
+    ['Family', details.family],
+    ['Parameters', details.parameterCount ? formatParameterCount(details.parameterCount) : details.parameterSize],
+    ['Quantization', details.quantization],
+    ['Context length', details.contextLength?.toLocaleString()],
+    ['Capabilities', details.capabilities?.join(', ')],
+    ['Format', details.format],
+    ['Modified', details.modifiedAt && new Date(details.modifiedAt).toLocaleString()],
+  ];
+
+  return (
+    <dl className="mt-2 grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+      {rows.filter(([, value]) => value).map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt>{label}</dt>
+          <dd className="text-gray-900 dark:text-gray-200">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
 export function ModelSelector({ onModelSelect, currentModel }: ModelSelectorProps) {
-  const [models, setModels] = useState<Model[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { models, loading, error, pulls, install, cancelInstall, dismissPull, remove, inspect } = useOllamaModels();
   const [isOpen, setIsOpen] = useState(false);
   const [savedModel, setSavedModel] = useLocalStorage('selectedModel', '');
-
-  useEffect(() => {
-    fetchModels();
-  }, []);
+  const [details, setDetails] = useState<ModelDetails | null>(null);
+  const [detailsError, setDetailsError] = useState<string | null>(null);
 
   useEffect(() => {
     if (savedModel && models.some(m => m.id === savedModel && m.available)) {
@@ -36,19 +86,26 @@ export function ModelSelector({ onModelSelect, currentModel }: ModelSelectorProp
     }
   }, [savedModel, models]);
 
-  const fetchModels = async () => {
+  // Details are loaded when the panel is opened
+  useEffect(() => {
+    setDetails(null);
+    setDetailsError(null);
+  }, [currentModel]);
+
+  const loadDetails = async (open: boolean) => {
+    if (!open || details || !currentModel) return;
     try {
-      const result = await runFlow<typeof getAvailableModels>({
-        url: '/api/models',
-      });
-      setModels(result.models);
-      setLoading(false);
-    } catch (error) {
-      console.error('Failed to fetch models:', error);
-      setLoading(false);
+      setDetails(await inspect(currentModel));
+    } catch (err) {
+      setDetailsError(parseExtractionError(err, 'Failed to load model details').message);
     }
   };
 
+  const handleDelete = async (model: ModelInfo) => {
+    if (!window.confirm(`Delete ${model.id} from Ollama? This frees ${model.size}.`)) return;
+    await remove(model.id);
+  };
+
   const handleModelSelect = (modelId: string) => {
     onModelSelect(modelId);
     setSavedModel(modelId);
@@ -77,10 +134,10 @@ export function ModelSelector({ onModelSelect, currentModel }: ModelSelectorProp
       {hasNoModels && (
         <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg mb-2">
           <p className="text-sm text-red-800 dark:text-red-200">
-            No vision models found in Ollama. Install a model to get started:
+            No vision models found in Ollama. Install one of the recommended models from the list below, or run:
           </p>
           <code className="block mt-1 p-2 bg-gray-900 dark:bg-gray-800 text-white rounded text-sm">
-            ollama pull llava:7b
+            ollama pull gemma3:4b
           </code>
         </div>
       )}
@@ -109,7 +166,7 @@ export function ModelSelector({ onModelSelect, currentModel }: ModelSelectorProp
                     {selectedModel.name}
                   </p>
                   <p className="text-sm text-gray-600 dark:text-gray-400">
-                    {selectedModel.size}
+                    {describeModel(selectedModel)}
                   </p>
                 </div>
               </>
@@ -126,46 +183,105 @@ export function ModelSelector({ onModelSelect, currentModel }: ModelSelectorProp
         {isOpen && (
           <div className="absolute z-10 w-full mt-2 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
             {models.map((model) => (
-              <button
+              <div
                 key={model.id}
-                onClick={() => handleModelSelect(model.id)}
                 className={cn(
-                  "w-full px-4 py-3 flex items-center gap-3 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-left",
+                  "flex items-center hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors",
                   currentModel === model.id && "bg-blue-50 dark:bg-blue-900/20"
                 )}
               >
-                {model.available ? (
-                  <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
-                ) : (
-                  <Download className="h-5 w-5 text-gray-400 flex-shrink-0" />
-                )}
-                <div className="flex-1">
-                  <p className="font-medium text-gray-900 dark:text-white">
-                    {model.name}
-                  </p>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    {model.description}
-                  </p>
-                  <p className="text-xs text-gray-500 dark:text-gray-500">
-                    {model.size} • {model.id}
-                  </p>
+                <button
+                  onClick={() => handleModelSelect(model.id)}
+                  className="flex-1 min-w-0 px-4 py-3 flex items-center gap-3 text-left"
+                  title={model.vision?.reason}
+                >
+                  {model.available ? (
+                    <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
+                  ) : (
+                    <Download className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {model.name}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {model.description}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-500">
+                      {describeModel(model)} • {model.id}
+                    </p>
+                  </div>
+                </button>
+                <div className="pr-3">
+                  {model.available ? (
+                    <button
+                      onClick={() => handleDelete(model)}
+                      className="p-2 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                      title="Delete from Ollama"
+                    >
+                      <Trash2 className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+                    </button>
+                  ) : pulls[model.id] && !pulls[model.id].error ? (
+                    <Loader2 className="h-4 w-4 m-2 text-blue-600 animate-spin" />
+                  ) : (
+                    <button
+                      onClick={() => install(model.id)}
+                      className="px-2 py-1 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                    >
+                      Install
+                    </button>
+                  )}
                 </div>
-              </button>
+              </div>
             ))}
           </div>
         )}
       </div>
 
-      {selectedModel && !selectedModel.available && (
-        <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {/* Downloads started from the list show their progress here */}
+      {Object.entries(pulls).map(([modelId, pull]) => (
+        <div key={modelId} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-1">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Installing {modelId}</p>
+          <PullProgress pull={pull} onCancel={() => cancelInstall(modelId)} onDismiss={() => dismissPull(modelId)} />
+        </div>
+      ))}
+
+      {selectedModel && !selectedModel.available && !pulls[selectedModel.id] && (
+        <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg space-y-2">
           <p className="text-sm text-yellow-800 dark:text-yellow-200">
-            This model is not installed. Run:
+            This model is not installed ({selectedModel.size}).
+          </p>
+          <button
+            onClick={() => install(selectedModel.id)}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Install {selectedModel.id}
+          </button>
+          <p className="text-xs text-yellow-800 dark:text-yellow-200">
+            or run <code>ollama pull {selectedModel.id}</code>
           </p>
-          <code className="block mt-1 p-2 bg-gray-900 dark:bg-gray-800 text-white rounded text-sm">
-            ollama pull {selectedModel.id}
-          </code>
         </div>
       )}
+
+      {selectedModel?.available && (
+        <details className="text-sm" onToggle={(e) => loadDetails(e.currentTarget.open)}>
+          <summary className="cursor-pointer text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">
+            Model details
+          </summary>
+          {details ? (
+            <ModelDetailsList details={details} visionReason={selectedModel.vision?.reason} />
+          ) : detailsError ? (
+            <p className="mt-2 text-xs text-red-600 dark:text-red-400">{detailsError}</p>
+          ) : (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Loading...</p>
+          )}
+        </details>
+      )}
     </div>
   );
 }
\ No newline at end of file
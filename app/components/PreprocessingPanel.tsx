@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Loader2, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { runFlow } from '@genkit-ai/next/client';
+import type { preprocessImage } from '@/lib/genkit/flows';
+import { cn, fileToBase64 } from '@/lib/utils';
+import {
+  DEFAULT_PREPROCESSING_OPTIONS,
+  describePreprocessingStep,
+  toPreprocessingSteps,
+  type PreprocessingOptions,
+} from '@/lib/preprocessing';
+
+interface PreprocessingPanelProps {
+  file: File;
+  model: string;
+  options: PreprocessingOptions;
+  onOptionsChange: (options: PreprocessingOptions) => void;
+}
+
+const ROTATIONS = [0, 90, 180, 270];
+const MAX_DIMENSIONS = [512, 768, 1024, 1536, 2048];
+const PREVIEW_DEBOUNCE_MS = 400;
+
+const inputClassName = "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm";
+
+export function PreprocessingPanel({ file, model, options, onOptionsChange }: PreprocessingPanelProps) {
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [processedUrl, setProcessedUrl] = useState<string | null>(null);
+  const [processedSize, setProcessedSize] = useState<{ width: number; height: number } | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const steps = useMemo(() => toPreprocessingSteps(options), [options]);
+
+  const update = (changes: Partial<PreprocessingOptions>) => {
+    onOptionsChange({ ...options, ...changes });
+  };
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setOriginalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Render the after preview on the server with the same code path used for extraction
+  useEffect(() => {
+    setError(null);
+    if (steps.length === 0) {
+      setProcessedUrl(null);
+      setProcessedSize(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsProcessing(true);
+      try {
+        const result = await runFlow<typeof preprocessImage>({
+          url: '/api/preprocess-image',
+          input: { imageBase64: await fileToBase64(file), model, steps },
+        });
+        if (!cancelled) {
+          setProcessedUrl(`data:image/png;base64,${result.imageBase64}`);
+          setProcessedSize({ width: result.width, height: result.height });
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to preprocess image');
+        }
+      } finally {
+        if (!cancelled) setIsProcessing(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [file, model, steps]);
+
+  const crop = options.crop ?? { left: 0, top: 0, width: 1, height: 1 };
+  const updateCrop = (key: keyof typeof crop, percent: number) => {
+    const value = Math.min(Math.max(percent, 0), 100) / 100;
+    update({ crop: { ...crop, [key]: key === 'width' || key === 'height' ? Math.max(value, 0.01) : value } });
+  };
+
+  return (
+    <details className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+      <summary className="cursor-pointer font-medium text-gray-900 dark:text-white flex items-center gap-2">
+        <SlidersHorizontal className="h-4 w-4" />
+        Preprocess Image
+        {steps.length > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs bg-blue-100 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+            {steps.length} step{steps.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center justify-between gap-2">
+            Rotate
+            <select
+              value={options.rotate}
+              onChange={(e) => update({ rotate: Number(e.target.value) })}
+              className={inputClassName}
+            >
+              {ROTATIONS.map(angle => (
+                <option key={angle} value={angle}>{angle}°</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            Downscale
+            <select
+              value={options.maxDimension === null ? '' : String(options.maxDimension)}
+              onChange={(e) => update({
+                maxDimension: e.target.value === '' ? null : e.target.value === 'auto' ? 'auto' : Number(e.target.value),
+              })}
+              className={inputClassName}
+            >
+              <option value="">Off</option>
+              <option value="auto">Auto (model resolution)</option>
+              {MAX_DIMENSIONS.map(size => (
+                <option key={size} value={size}>{size}px</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.deskew}
+              onChange={(e) => update({ deskew: e.target.checked })}
+            />
+            Deskew (straighten tilted text)
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.grayscale}
+              onChange={(e) => update({ grayscale: e.target.checked })}
+            />
+            Grayscale
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            Contrast ×{options.contrast.toFixed(1)}
+            <input
+              type="range"
+              min={0.5}
+              max={3}
+              step={0.1}
+              value={options.contrast}
+              onChange={(e) => update({ contrast: Number(e.target.value) })}
+            />
+          </label>
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.threshold !== null}
+                onChange={(e) => update({ threshold: e.target.checked ? 128 : null })}
+              />
+              Threshold {options.threshold !== null && options.threshold}
+            </label>
+            {options.threshold !== null && (
+              <input
+                type="range"
+                min={1}
+                max={254}
+                value={options.threshold}
+                onChange={(e) => update({ threshold: Number(e.target.value) })}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.crop !== null}
+              onChange={(e) => update({ crop: e.target.checked ? { left: 0, top: 0, width: 1, height: 1 } : null })}
+            />
+            Crop (percent of the rotated image)
+          </label>
+          {options.crop && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {(['left', 'top', 'width', 'height'] as const).map(key => (
+                <label key={key} className="flex flex-col gap-1 text-xs capitalize">
+                  {key}
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(crop[key] * 100)}
+                    onChange={(e) => updateCrop(key, Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500 dark:text-gray-500">
+            {steps.length > 0 ? steps.map(describePreprocessingStep).join(' → ') : 'No preprocessing; the original image is sent.'}
+          </p>
+          <button
+            onClick={() => onOptionsChange(DEFAULT_PREPROCESSING_OPTIONS)}
+            disabled={steps.length === 0}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center gap-1 disabled:opacity-50"
+          >
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </button>
+        </div>
+
+        {steps.length > 0 && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <span className="text-xs font-medium text-gray-600 dark:text-gray-400">Before</span>
+              <div className="h-[180px] flex items-center justify-center rounded-lg bg-white dark:bg-gray-900 overflow-hidden">
+                {originalUrl && (
+                  <img src={originalUrl} alt="Original" className="max-h-full max-w-full object-contain" />
+                )}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                After{processedSize && ` (${processedSize.width}×${processedSize.height})`}
+              </span>
+              <div className={cn(
+                "h-[180px] flex items-center justify-center rounded-lg bg-white dark:bg-gray-900 overflow-hidden",
+                isProcessing && "animate-pulse"
+              )}>
+                {isProcessing && !processedUrl ? (
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                ) : processedUrl ? (
+                  <img src={processedUrl} alt="Preprocessed" className="max-h-full max-w-full object-contain" />
+                ) : null}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -1,113 +1,177 @@
 'use client';
 
-import { useState } from 'react';
-import { Sparkles, RotateCcw } from 'lucide-react';
-import { useLocalStorage } from '@/app/hooks/useLocalStorage';
+import { useState, useRef } from 'react';
+import { Sparkles, Pencil, Copy, Upload, Download } from 'lucide-react';
+import { downloadTextFile } from '@/lib/utils';
+import { LANGUAGE_HINTS, SCRIPTS, getLanguageHint, buildLanguageInstructions } from '@/lib/language';
+import {
+  renderPromptTemplate,
+  templateVariables,
+  exportPromptLibrary,
+  type PromptTemplate,
+} from '@/lib/prompts';
+import { usePromptLibrary } from '@/app/hooks/usePromptLibrary';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
 
 interface PromptInputProps {
   onPromptChange: (prompt: string) => void;
   currentPrompt: string;
+  /** Expected language id, or an empty string to let the model decide. */
+  language: string;
+  onLanguageChange: (language: string) => void;
+  /** Selected model, offered as the default model of a new template. */
+  model: string;
+  /** Called when a template is picked, so its default model and output format can be applied. */
+  onTemplateSelect?: (template: PromptTemplate) => void;
 }
 
-const PRESET_PROMPTS = [
-  {
-    id: 'extract-all',
-    label: 'Extract All Text',
-    prompt: 'Extract all readable text from this image. Include all visible text elements.',
-  },
-  {
-    id: 'structured',
-    label: 'Structured Data',
-    prompt: 'Extract text from this image and organize it in a structured format. Identify headers, paragraphs, lists, and other text elements.',
-  },
-  {
-    id: 'handwriting',
-    label: 'Handwritten Text',
-    prompt: 'Focus on extracting any handwritten text in this image. Be careful with letter recognition.',
-  },
-  {
-    id: 'receipt',
-    label: 'Receipt/Invoice',
-    prompt: 'Extract information from this receipt or invoice. Include items, prices, totals, date, and merchant information.',
-  },
-  {
-    id: 'document',
-    label: 'Document OCR',
-    prompt: 'Perform OCR on this document image. Extract all text while preserving the document structure and formatting.',
-  },
-];
-
-export function PromptInput({ onPromptChange, currentPrompt }: PromptInputProps) {
-  const [customPrompts, setCustomPrompts] = useLocalStorage<string[]>('customPrompts', []);
-  const [isAddingCustom, setIsAddingCustom] = useState(false);
-  const [newPrompt, setNewPrompt] = useState('');
-
-  const handlePresetSelect = (prompt: string) => {
-    onPromptChange(prompt);
+type EditorState = { template?: PromptTemplate; draft?: Partial<PromptTemplate> } | null;
+
+const templateButtonClassName = (active: boolean) => `px-3 py-2 rounded-lg border text-sm transition-colors truncate ${
+  active
+    ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+    : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+}`;
+const linkButtonClassName = "text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center gap-1";
+
+export function PromptInput({ onPromptChange, currentPrompt, language, onLanguageChange, model, onTemplateSelect }: PromptInputProps) {
+  const library = usePromptLibrary();
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const languageHint = getLanguageHint(language);
+  const activeTemplate = library.templates.find(template => template.id === activeTemplateId);
+  const variables = activeTemplate ? templateVariables(activeTemplate) : [];
+
+  // A {{language}} placeholder follows the expected language unless it is filled in
+  const render = (template: PromptTemplate, templateValues: Record<string, string>) =>
+    renderPromptTemplate(template, { ...templateValues, language: templateValues.language || languageHint?.name || '' });
+
+  const handleTemplateSelect = (template: PromptTemplate) => {
+    setActiveTemplateId(template.id);
+    setValues({});
+    onPromptChange(render(template, {}));
+    onTemplateSelect?.(template);
+  };
+
+  const handleValueChange = (name: string, value: string) => {
+    const next = { ...values, [name]: value };
+    setValues(next);
+    if (activeTemplate) onPromptChange(render(activeTemplate, next));
   };
 
-  const handleAddCustomPrompt = () => {
-    if (newPrompt.trim()) {
-      const updated = [...customPrompts, newPrompt.trim()];
-      setCustomPrompts(updated);
-      onPromptChange(newPrompt.trim());
-      setNewPrompt('');
-      setIsAddingCustom(false);
+  const handleLanguageChange = (id: string) => {
+    onLanguageChange(id);
+    if (activeTemplate && variables.some(v => v.name === 'language') && !values.language) {
+      onPromptChange(renderPromptTemplate(activeTemplate, { ...values, language: getLanguageHint(id)?.name ?? '' }));
     }
   };
 
-  const handleResetToDefault = () => {
-    onPromptChange(PRESET_PROMPTS[0].prompt);
+  const handleImport = async (file: File) => {
+    try {
+      const imported = library.importLibrary(JSON.parse(await file.text()));
+      setImportMessage(`Imported ${imported} template${imported === 1 ? '' : 's'}`);
+    } catch (err) {
+      setImportMessage(err instanceof Error ? err.message : 'Failed to import templates');
+    }
   };
 
+  const sharedTemplates = library.templates.filter(template => template.source === 'server');
+
   return (
     <div className="space-y-3">
 
-      <div className="space-y-2">
-        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-          Preset Prompts
-        </label>
-        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-          {PRESET_PROMPTS.map((preset) => (
-            <button
-              key={preset.id}
-              onClick={() => handlePresetSelect(preset.prompt)}
-              className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
-                currentPrompt === preset.prompt
-                  ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
-                  : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
-              }`}
-            >
-              {preset.label}
-            </button>
-          ))}
+      {sharedTemplates.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Shared Templates
+          </label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {sharedTemplates.map((template) => (
+              <button
+                key={template.id}
+                onClick={() => handleTemplateSelect(template)}
+                className={templateButtonClassName(template.id === activeTemplateId)}
+                title={template.description ?? template.template}
+              >
+                {template.name}
+              </button>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
 
-      {customPrompts.length > 0 && (
+      {library.localTemplates.length > 0 && (
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-            Custom Prompts
+            My Templates
           </label>
           <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-            {customPrompts.map((prompt, index) => (
+            {library.localTemplates.map((template) => (
               <button
-                key={index}
-                onClick={() => onPromptChange(prompt)}
-                className={`px-3 py-2 rounded-lg border text-sm transition-colors truncate ${
-                  currentPrompt === prompt
-                    ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
-                    : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
-                }`}
-                title={prompt}
+                key={template.id}
+                onClick={() => handleTemplateSelect(template)}
+                className={templateButtonClassName(template.id === activeTemplateId)}
+                title={template.description ?? template.template}
               >
-                {prompt}
+                {template.name}
+                {template.versions.length > 0 && (
+                  <span className="ml-1 text-xs opacity-60">v{template.versions.length + 1}</span>
+                )}
               </button>
             ))}
           </div>
         </div>
       )}
 
+      {activeTemplate && variables.length > 0 && (
+        <div className="space-y-2">
+          {variables.map(variable => (
+            <div key={variable.name} className="space-y-1">
+              <label htmlFor={`prompt-variable-${variable.name}`} className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                {variable.description ?? variable.name}
+              </label>
+              <input
+                id={`prompt-variable-${variable.name}`}
+                value={values[variable.name] ?? ''}
+                onChange={(e) => handleValueChange(variable.name, e.target.value)}
+                placeholder={(variable.name === 'language' && languageHint?.name) || variable.defaultValue || variable.name}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label htmlFor="prompt-language" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Expected Language
+        </label>
+        <select
+          id="prompt-language"
+          value={languageHint ? language : ''}
+          onChange={(e) => handleLanguageChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+        >
+          <option value="">Any language</option>
+          {SCRIPTS.filter(script => LANGUAGE_HINTS.some(hint => hint.script === script)).map(script => (
+            <optgroup key={script} label={script}>
+              {LANGUAGE_HINTS.filter(hint => hint.script === script).map(hint => (
+                <option key={hint.id} value={hint.id}>{hint.name}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        {languageHint && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Added to the prompt: {buildLanguageInstructions(languageHint)}
+          </p>
+        )}
+      </div>
+
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
           Current Prompt
@@ -115,7 +179,11 @@ export function PromptInput({ onPromptChange, currentPrompt }: PromptInputProps)
         <div className="relative">
           <textarea
             value={currentPrompt}
-            onChange={(e) => onPromptChange(e.target.value)}
+            onChange={(e) => {
+              // Typed edits would be overwritten by the template's variables
+              setActiveTemplateId(null);
+              onPromptChange(e.target.value);
+            }}
             rows={3}
             className="w-full px-4 py-3 pr-12 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
             placeholder="Describe what text you want to extract..."
@@ -124,41 +192,74 @@ export function PromptInput({ onPromptChange, currentPrompt }: PromptInputProps)
         </div>
       </div>
 
-      {!isAddingCustom ? (
-        <button
-          onClick={() => setIsAddingCustom(true)}
-          className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
-        >
-          + Save current as custom prompt
-        </button>
+      {editor ? (
+        <PromptTemplateEditor
+          key={editor.template?.id ?? 'new'}
+          template={editor.template}
+          draft={editor.draft}
+          currentModel={model}
+          onSave={(template) => {
+            library.save(template);
+            setActiveTemplateId(template.id);
+          }}
+          onDelete={(id) => {
+            library.remove(id);
+            if (activeTemplateId === id) setActiveTemplateId(null);
+          }}
+          onClose={() => setEditor(null)}
+        />
       ) : (
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={newPrompt}
-            onChange={(e) => setNewPrompt(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleAddCustomPrompt()}
-            placeholder="Name for this prompt..."
-            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-            autoFocus
-          />
-          <button
-            onClick={handleAddCustomPrompt}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
-          >
-            Save
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <button onClick={() => setEditor({ draft: { template: activeTemplate?.template ?? currentPrompt } })} className={linkButtonClassName}>
+            + Save as template
           </button>
-          <button
-            onClick={() => {
-              setIsAddingCustom(false);
-              setNewPrompt('');
-            }}
-            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm"
-          >
-            Cancel
+          {activeTemplate?.source === 'local' && (
+            <button onClick={() => setEditor({ template: activeTemplate })} className={linkButtonClassName}>
+              <Pencil className="h-3 w-3" />
+              Edit template
+            </button>
+          )}
+          {activeTemplate?.source === 'server' && (
+            <button
+              onClick={() => setEditor({ draft: { ...activeTemplate, name: `${activeTemplate.name} (copy)` } })}
+              className={linkButtonClassName}
+            >
+              <Copy className="h-3 w-3" />
+              Duplicate to edit
+            </button>
+          )}
+          <div className="flex-1" />
+          <button onClick={() => importInputRef.current?.click()} className={linkButtonClassName} title="Import templates from a library file">
+            <Upload className="h-3 w-3" />
+            Import
           </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          {library.localTemplates.length > 0 && (
+            <button
+              onClick={() => downloadTextFile(JSON.stringify(exportPromptLibrary(library.localTemplates), null, 2), 'prompt-library.json')}
+              className={linkButtonClassName}
+              title="Export my templates to share them"
+            >
+              <Download className="h-3 w-3" />
+              Export
+            </button>
+          )}
         </div>
       )}
+
+      {importMessage && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{importMessage}</p>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
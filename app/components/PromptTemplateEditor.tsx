@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import { History, Download, Trash2 } from 'lucide-react';
+import { downloadTextFile } from '@/lib/utils';
+import {
+  createPromptTemplate,
+  updatePromptTemplate,
+  templateVariables,
+  toDotprompt,
+  dotpromptFileName,
+  type PromptTemplate,
+} from '@/lib/prompts';
+
+interface PromptTemplateEditorProps {
+  /** Local template to edit; without one a new template is created. */
+  template?: PromptTemplate;
+  /** Starting point for a new template, e.g. the current prompt or a shared template. */
+  draft?: Partial<PromptTemplate>;
+  /** Offered as the template's default model. */
+  currentModel: string;
+  onSave: (template: PromptTemplate) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+type OutputFormat = PromptTemplate['outputFormat'];
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm";
+const labelClassName = "text-xs font-medium text-gray-600 dark:text-gray-400";
+
+export function PromptTemplateEditor({ template, draft, currentModel, onSave, onDelete, onClose }: PromptTemplateEditorProps) {
+  const initial = template ?? draft;
+  const [name, setName] = useState(initial?.name ?? '');
+  const [description, setDescription] = useState(initial?.description ?? '');
+  const [text, setText] = useState(initial?.template ?? '');
+  const [variables, setVariables] = useState(initial?.variables ?? []);
+  const [defaultModel, setDefaultModel] = useState(initial?.defaultModel ?? '');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(initial?.outputFormat);
+
+  // Descriptions and defaults follow the placeholders as they are typed
+  const placeholders = templateVariables({ template: text, variables });
+  const setVariable = (name: string, changes: { description?: string; defaultValue?: string }) => {
+    const current = placeholders.find(v => v.name === name) ?? { name };
+    setVariables([...variables.filter(v => v.name !== name), { ...current, ...changes }]);
+  };
+
+  const fields = {
+    name: name.trim(),
+    description: description.trim() || undefined,
+    template: text.trim(),
+    variables: placeholders.filter(v => v.description || v.defaultValue),
+    defaultModel: defaultModel.trim() || undefined,
+    outputFormat,
+  };
+
+  const handleSave = () => {
+    onSave(template ? updatePromptTemplate(template, fields) : createPromptTemplate(fields));
+    onClose();
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className={labelClassName}>Name</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Invoice fields" className={inputClassName} autoFocus />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClassName}>Description</label>
+          <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" className={inputClassName} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className={labelClassName}>
+          Template <span className="font-normal">· use {'{{name}}'} for values filled in when the template is used</span>
+        </label>
+        <textarea value={text} onChange={(e) => setText(e.target.value)} rows={4} className={`${inputClassName} resize-y font-mono`} />
+      </div>
+
+      {placeholders.length > 0 && (
+        <div className="space-y-1">
+          <label className={labelClassName}>Variables</label>
+          {placeholders.map(variable => (
+            <div key={variable.name} className="grid grid-cols-[6rem_1fr_1fr] gap-2 items-center">
+              <code className="text-xs text-gray-700 dark:text-gray-300 truncate">{variable.name}</code>
+              <input
+                value={variable.description ?? ''}
+                onChange={(e) => setVariable(variable.name, { description: e.target.value || undefined })}
+                placeholder="Description"
+                className={inputClassName}
+              />
+              <input
+                value={variable.defaultValue ?? ''}
+                onChange={(e) => setVariable(variable.name, { defaultValue: e.target.value || undefined })}
+                placeholder="Default value"
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className={labelClassName}>Default model</label>
+          <div className="flex gap-1">
+            <input value={defaultModel} onChange={(e) => setDefaultModel(e.target.value)} placeholder="Keep the selected model" className={inputClassName} />
+            {currentModel && defaultModel !== currentModel && (
+              <button
+                onClick={() => setDefaultModel(currentModel)}
+                className="px-2 rounded-lg text-xs bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 whitespace-nowrap"
+                title={`Use ${currentModel}`}
+              >
+                Current
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClassName}>Output format</label>
+          <select
+            value={outputFormat ?? ''}
+            onChange={(e) => setOutputFormat((e.target.value || undefined) as OutputFormat)}
+            className={inputClassName}
+          >
+            <option value="">Keep the current setting</option>
+            <option value="text">Plain text</option>
+            <option value="markdown">Markdown (preserve layout)</option>
+          </select>
+        </div>
+      </div>
+
+      {template && template.versions.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-600 dark:text-gray-400 flex items-center gap-1">
+            <History className="h-3 w-3" />
+            {template.versions.length} earlier version{template.versions.length === 1 ? '' : 's'}
+          </summary>
+          <ul className="mt-2 space-y-2">
+            {template.versions.map((version, i) => ({ version, number: i + 1 })).reverse().map(({ version, number }) => (
+              <li key={version.savedAt} className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800 space-y-1">
+                <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                  <span>
+                    v{number} · {new Date(version.savedAt).toLocaleString()}
+                    {version.defaultModel && ` · ${version.defaultModel}`}
+                    {version.outputFormat && ` · ${version.outputFormat}`}
+                  </span>
+                  <button
+                    onClick={() => {
+                      setText(version.template);
+                      setDefaultModel(version.defaultModel ?? '');
+                      setOutputFormat(version.outputFormat);
+                    }}
+                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    Restore
+                  </button>
+                </div>
+                <p className="text-xs font-mono whitespace-pre-wrap text-gray-700 dark:text-gray-300">{version.template}</p>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!fields.name || !fields.template}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {template ? 'Save new version' : 'Save template'}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm"
+        >
+          Cancel
+        </button>
+        <div className="flex-1" />
+        {fields.name && fields.template && (
+          <button
+            onClick={() => {
+              const saved = template ? updatePromptTemplate(template, fields) : createPromptTemplate(fields);
+              downloadTextFile(toDotprompt(saved), dotpromptFileName(saved));
+            }}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            title="Download as a .prompt file for the shared prompts directory"
+          >
+            <Download className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+          </button>
+        )}
+        {template && onDelete && (
+          <button
+            onClick={() => {
+              onDelete(template.id);
+              onClose();
+            }}
+            className="p-2 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30"
+            title="Delete template"
+          >
+            <Trash2 className="h-4 w-4 text-red-600" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
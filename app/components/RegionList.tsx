@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { SquareDashedMousePointer, Trash2, Save, FolderOpen } from 'lucide-react';
+import { useLocalStorage } from '@/app/hooks/useLocalStorage';
+import type { Region, RegionLayout } from '@/lib/regions';
+
+interface RegionListProps {
+  regions: Region[];
+  onRegionsChange: (regions: Region[]) => void;
+}
+
+const inputClassName = "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm";
+
+export function RegionList({ regions, onRegionsChange }: RegionListProps) {
+  const [layouts, setLayouts] = useLocalStorage<RegionLayout[]>('regionLayouts', []);
+  const [layoutName, setLayoutName] = useState('');
+
+  const updateLabel = (index: number, label: string) => {
+    onRegionsChange(regions.map((region, i) => (i === index ? { ...region, label } : region)));
+  };
+
+  const removeRegion = (index: number) => {
+    onRegionsChange(regions.filter((_, i) => i !== index));
+  };
+
+  // Saving under an existing name replaces that layout
+  const saveLayout = () => {
+    const name = layoutName.trim();
+    if (!name || regions.length === 0) return;
+    setLayouts([...layouts.filter(layout => layout.name !== name), { name, regions }]);
+    setLayoutName('');
+  };
+
+  const loadLayout = (name: string) => {
+    const layout = layouts.find(layout => layout.name === name);
+    if (layout) onRegionsChange(layout.regions);
+  };
+
+  const deleteLayout = (name: string) => {
+    setLayouts(layouts.filter(layout => layout.name !== name));
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+          <SquareDashedMousePointer className="h-4 w-4" />
+          Regions of interest
+          <span className="font-normal text-xs text-gray-500 dark:text-gray-500">
+            {regions.length > 0 ? 'only these areas are extracted' : 'draw on the preview to add one'}
+          </span>
+        </span>
+        {regions.length > 0 && (
+          <button
+            onClick={() => onRegionsChange([])}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {regions.length > 0 && (
+        <ul className="space-y-2">
+          {regions.map((region, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={region.label}
+                onChange={(e) => updateLabel(index, e.target.value)}
+                className={`${inputClassName} flex-1`}
+                aria-label={`Label for region ${index + 1}`}
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-500 whitespace-nowrap">
+                {Math.round(region.width * 100)}% × {Math.round(region.height * 100)}%
+              </span>
+              <button
+                onClick={() => removeRegion(index)}
+                className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                title="Remove region"
+              >
+                <Trash2 className="h-3 w-3 text-gray-600 dark:text-gray-400" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {regions.length > 0 && (
+          <>
+            <input
+              type="text"
+              value={layoutName}
+              onChange={(e) => setLayoutName(e.target.value)}
+              placeholder="Layout name (e.g. Invoice header)"
+              className={`${inputClassName} flex-1 min-w-[160px]`}
+            />
+            <button
+              onClick={saveLayout}
+              disabled={!layoutName.trim()}
+              className="px-2 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-1 disabled:opacity-50"
+            >
+              <Save className="h-3 w-3" />
+              Save layout
+            </button>
+          </>
+        )}
+
+        {layouts.length > 0 && (
+          <div className="flex items-center gap-1">
+            <FolderOpen className="h-4 w-4 text-gray-500" />
+            <select
+              value=""
+              onChange={(e) => loadLayout(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="" disabled>Load layout...</option>
+              {layouts.map(layout => (
+                <option key={layout.name} value={layout.name}>
+                  {layout.name} ({layout.regions.length})
+                </option>
+              ))}
+            </select>
+            <select
+              value=""
+              onChange={(e) => deleteLayout(e.target.value)}
+              className={inputClassName}
+              aria-label="Delete saved layout"
+            >
+              <option value="" disabled>Delete...</option>
+              {layouts.map(layout => (
+                <option key={layout.name} value={layout.name}>{layout.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { Braces } from 'lucide-react';
+import { EXTRACTION_SCHEMAS } from '@/lib/genkit/schemas';
+import { useLocalStorage } from '@/app/hooks/useLocalStorage';
+
+export interface SchemaSelection {
+  schemaId?: string;
+  jsonSchema?: Record<string, any>;
+}
+
+interface SchemaSelectorProps {
+  onSchemaChange: (selection: SchemaSelection | null) => void;
+}
+
+const CUSTOM_SCHEMA_ID = 'custom';
+
+const CUSTOM_SCHEMA_PLACEHOLDER = `{
+  "type": "object",
+  "properties": {
+    "title": { "type": "string" }
+  },
+  "required": ["title"]
+}`;
+
+export function SchemaSelector({ onSchemaChange }: SchemaSelectorProps) {
+  const [selectedId, setSelectedId] = useState('');
+  const [customSchema, setCustomSchema] = useLocalStorage('customExtractionSchema', '');
+  const [error, setError] = useState<string | null>(null);
+
+  const applyCustomSchema = (text: string) => {
+    if (!text.trim()) {
+      setError(null);
+      onSchemaChange(null);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(text);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('Schema must be a JSON object');
+      }
+      setError(null);
+      onSchemaChange({ jsonSchema: parsed });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid JSON');
+      onSchemaChange(null);
+    }
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    if (!id) {
+      setError(null);
+      onSchemaChange(null);
+    } else if (id === CUSTOM_SCHEMA_ID) {
+      applyCustomSchema(customSchema);
+    } else {
+      setError(null);
+      onSchemaChange({ schemaId: id });
+    }
+  };
+
+  const selectedDefinition = EXTRACTION_SCHEMAS.find(schema => schema.id === selectedId);
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="extraction-schema" className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-1">
+        <Braces className="h-4 w-4" />
+        Structured Output
+      </label>
+      <select
+        id="extraction-schema"
+        value={selectedId}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value="">None (plain text)</option>
+        {EXTRACTION_SCHEMAS.map(schema => (
+          <option key={schema.id} value={schema.id}>{schema.label}</option>
+        ))}
+        <option value={CUSTOM_SCHEMA_ID}>Custom JSON Schema…</option>
+      </select>
+
+      {selectedDefinition && (
+        <p className="text-xs text-gray-500 dark:text-gray-500">
+          {selectedDefinition.description}
+        </p>
+      )}
+
+      {selectedId === CUSTOM_SCHEMA_ID && (
+        <textarea
+          value={customSchema}
+          onChange={(e) => {
+            setCustomSchema(e.target.value);
+            applyCustomSchema(e.target.value);
+          }}
+          rows={8}
+          spellCheck={false}
+          placeholder={CUSTOM_SCHEMA_PLACEHOLDER}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+interface StructuredFieldsProps {
+  data: unknown;
+}
+
+// Turn camelCase and kebab-case keys into readable labels
+function formatLabel(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[-_]+/g, ' ')
+    .replace(/^./, c => c.toUpperCase());
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function PrimitiveValue({ value }: { value: unknown }) {
+  if (value === null || value === undefined || value === '') {
+    return <span className="text-gray-400 dark:text-gray-500">—</span>;
+  }
+  if (typeof value === 'boolean') {
+    return <span>{value ? 'Yes' : 'No'}</span>;
+  }
+  if (typeof value === 'number') {
+    return <span className="font-mono">{value.toLocaleString()}</span>;
+  }
+  return <span>{String(value)}</span>;
+}
+
+function ObjectTable({ rows }: { rows: Record<string, unknown>[] }) {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm border border-gray-200 dark:border-gray-700 rounded">
+        <thead className="bg-gray-100 dark:bg-gray-800">
+          <tr>
+            {columns.map(column => (
+              <th key={column} className="px-2 py-1 text-left font-medium text-gray-700 dark:text-gray-300">
+                {formatLabel(column)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {rows.map((row, index) => (
+            <tr key={index}>
+              {columns.map(column => (
+                <td key={column} className="px-2 py-1 align-top">
+                  <FieldValue value={row[column]} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function FieldValue({ value }: { value: unknown }) {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return <PrimitiveValue value={null} />;
+    }
+    if (value.every(isPlainObject)) {
+      return <ObjectTable rows={value} />;
+    }
+    return (
+      <ul className="list-disc list-inside">
+        {value.map((entry, index) => (
+          <li key={index}><FieldValue value={entry} /></li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (isPlainObject(value)) {
+    return <StructuredFields data={value} />;
+  }
+
+  return <PrimitiveValue value={value} />;
+}
+
+/**
+ * Renders schema-validated extraction output as labeled fields.
+ */
+export function StructuredFields({ data }: StructuredFieldsProps) {
+  if (!isPlainObject(data)) {
+    return <FieldValue value={data} />;
+  }
+
+  return (
+    <dl className="grid grid-cols-[minmax(120px,auto)_1fr] gap-x-4 gap-y-2 text-sm">
+      {Object.entries(data).map(([key, value]) => (
+        <div key={key} className="contents">
+          <dt className="font-medium text-gray-600 dark:text-gray-400">{formatLabel(key)}</dt>
+          <dd className="text-gray-900 dark:text-gray-100 min-w-0">
+            <FieldValue value={value} />
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Check, Plus, X } from 'lucide-react';
+import { downloadBlob, downloadTextFile } from '@/lib/utils';
+import { toCsv, toTsv, toMarkdownTable, tableToRows, type ExtractedTable } from '@/lib/tables';
+import { createXlsxWorkbook } from '@/lib/xlsx';
+
+interface TableGridProps {
+  tables: ExtractedTable[];
+}
+
+const cellInputClassName = "w-full min-w-[6rem] px-2 py-1 bg-transparent focus:bg-white dark:focus:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded";
+const exportButtonClassName = "px-2 py-1 rounded-md text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors flex items-center gap-1";
+
+function tableFileName(table: ExtractedTable, index: number, extension: string): string {
+  const base = (table.title ?? `table-${index + 1}`).replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+  return `${base || `table-${index + 1}`}.${extension}`;
+}
+
+function EditableTable({ table, onChange }: { table: ExtractedTable; onChange: (table: ExtractedTable) => void }) {
+  const columns = table.headers.length || table.rows[0]?.length || 0;
+
+  const setHeader = (c: number, value: string) => {
+    onChange({ ...table, headers: table.headers.map((cell, i) => (i === c ? value : cell)) });
+  };
+  const setCell = (r: number, c: number, value: string) => {
+    onChange({ ...table, rows: table.rows.map((row, i) => (i === r ? row.map((cell, j) => (j === c ? value : cell)) : row)) });
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm border border-gray-200 dark:border-gray-700">
+        {table.headers.length > 0 && (
+          <thead className="bg-gray-100 dark:bg-gray-800">
+            <tr>
+              {table.headers.map((header, c) => (
+                <th key={c} className="border border-gray-200 dark:border-gray-700 p-0 font-semibold">
+                  <input value={header} onChange={(e) => setHeader(c, e.target.value)} className={cellInputClassName} />
+                </th>
+              ))}
+              <th className="w-8" />
+            </tr>
+          </thead>
+        )}
+        <tbody>
+          {table.rows.map((row, r) => (
+            <tr key={r} className="group">
+              {row.map((cell, c) => (
+                <td key={c} className="border border-gray-200 dark:border-gray-700 p-0">
+                  <input value={cell} onChange={(e) => setCell(r, c, e.target.value)} className={cellInputClassName} />
+                </td>
+              ))}
+              <td className="w-8 text-center">
+                <button
+                  onClick={() => onChange({ ...table, rows: table.rows.filter((_, i) => i !== r) })}
+                  className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-100 dark:hover:bg-red-900/30 transition-opacity"
+                  title="Delete row"
+                >
+                  <X className="h-3 w-3 text-gray-500" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        onClick={() => onChange({ ...table, rows: [...table.rows, new Array<string>(columns).fill('')] })}
+        className="mt-1 px-2 py-1 rounded text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 flex items-center gap-1"
+      >
+        <Plus className="h-3 w-3" />
+        Add row
+      </button>
+    </div>
+  );
+}
+
+// Extracted tables as editable grids; exports use the edited cells
+export function TableGrid({ tables }: TableGridProps) {
+  const [edited, setEdited] = useState(tables);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    setEdited(tables);
+  }, [tables]);
+
+  const updateTable = (index: number, table: ExtractedTable) => {
+    setEdited(prev => prev.map((t, i) => (i === index ? table : t)));
+  };
+
+  const copyMarkdown = async (index: number) => {
+    await navigator.clipboard.writeText(toMarkdownTable(edited[index]));
+    setCopiedIndex(index);
+    setTimeout(() => setCopiedIndex(null), 2000);
+  };
+
+  if (edited.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No tables found in the image.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {edited.map((table, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              {table.title || (edited.length > 1 ? `Table ${index + 1}` : 'Table')}
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                {table.rows.length} rows
+              </span>
+            </h3>
+            <div className="flex gap-1">
+              <button onClick={() => downloadTextFile(toCsv(table), tableFileName(table, index, 'csv'))} className={exportButtonClassName}>
+                CSV
+              </button>
+              <button onClick={() => downloadTextFile(toTsv(table), tableFileName(table, index, 'tsv'))} className={exportButtonClassName}>
+                TSV
+              </button>
+              <button
+                onClick={() => downloadBlob(
+                  createXlsxWorkbook([{ name: table.title || 'Table', rows: tableToRows(table) }]),
+                  tableFileName(table, index, 'xlsx')
+                )}
+                className={exportButtonClassName}
+              >
+                XLSX
+              </button>
+              <button onClick={() => copyMarkdown(index)} className={exportButtonClassName} title="Copy as markdown table">
+                {copiedIndex === index && <Check className="h-3 w-3 text-green-600" />}
+                Markdown
+              </button>
+            </div>
+          </div>
+          <EditableTable table={table} onChange={(next) => updateTable(index, next)} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { Grid3x3 } from 'lucide-react';
+
+export interface TilingOptions {
+  enabled: boolean;
+  /** Tile edge in pixels; null uses the model input resolution. */
+  tileSize: number | null;
+  overlap: number;
+  concurrency: number;
+}
+
+export const DEFAULT_TILING_OPTIONS: TilingOptions = {
+  enabled: false,
+  tileSize: null,
+  overlap: 0.15,
+  concurrency: 1,
+};
+
+interface TilingControlsProps {
+  options: TilingOptions;
+  onOptionsChange: (options: TilingOptions) => void;
+}
+
+const TILE_SIZES = [512, 768, 1024, 1536];
+
+const inputClassName = "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm";
+
+export function TilingControls({ options, onOptionsChange }: TilingControlsProps) {
+  const update = (changes: Partial<TilingOptions>) => {
+    onOptionsChange({ ...options, ...changes });
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        <Grid3x3 className="h-4 w-4" />
+        Tiled extraction
+        <span className="font-normal text-xs text-gray-500 dark:text-gray-500">
+          for large screenshots and full-page scans
+        </span>
+      </label>
+
+      {options.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex flex-col gap-1">
+            Tile size
+            <select
+              value={options.tileSize ?? ''}
+              onChange={(e) => update({ tileSize: e.target.value ? Number(e.target.value) : null })}
+              className={inputClassName}
+            >
+              <option value="">Auto (model resolution)</option>
+              {TILE_SIZES.map(size => (
+                <option key={size} value={size}>{size}px</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1">
+            Overlap {Math.round(options.overlap * 100)}%
+            <input
+              type="range"
+              min={0}
+              max={0.4}
+              step={0.05}
+              value={options.overlap}
+              onChange={(e) => update({ overlap: Number(e.target.value) })}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1">
+            Parallel tiles
+            <select
+              value={options.concurrency}
+              onChange={(e) => update({ concurrency: Number(e.target.value) })}
+              className={inputClassName}
+            >
+              {[1, 2, 3, 4].map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Languages, Loader2, Square, Copy, Check } from 'lucide-react';
+import { runFlow } from '@genkit-ai/next/client';
+import type { getTextModels } from '@/lib/genkit/flows';
+import { cn } from '@/lib/utils';
+import { useLocalStorage } from '@/app/hooks/useLocalStorage';
+import { useTranslation } from '@/app/hooks/useTranslation';
+import { ErrorNotice } from './ErrorNotice';
+
+type TextModel = Awaited<ReturnType<typeof getTextModels>>['models'][number];
+
+interface TranslationPanelProps {
+  /** Extracted text to translate; a new text discards the previous translation. */
+  text: string;
+}
+
+// Suggestions only; any language the model knows can be typed in
+const LANGUAGES = [
+  'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Polish', 'Russian', 'Ukrainian',
+  'Turkish', 'Arabic', 'Hebrew', 'Hindi', 'Chinese (Simplified)', 'Chinese (Traditional)', 'Japanese', 'Korean',
+  'Vietnamese', 'Thai', 'Indonesian',
+];
+
+const inputClassName = "px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm";
+
+export function TranslationPanel({ text }: TranslationPanelProps) {
+  const { lines, metadata, isTranslating, error, translate, cancel, reset } = useTranslation();
+  const [models, setModels] = useState<TextModel[]>([]);
+  const [model, setModel] = useLocalStorage('translationModel', '');
+  const [targetLanguage, setTargetLanguage] = useLocalStorage('translationLanguage', 'English');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    runFlow<typeof getTextModels>({ url: '/api/models/text' })
+      .then(result => setModels(result.models))
+      .catch(err => console.error('Failed to fetch text models:', err));
+  }, []);
+
+  useEffect(() => {
+    reset();
+  }, [text, reset]);
+
+  const selectedModel = models.some(m => m.id === model) ? model : models[0]?.id ?? '';
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(lines.map(line => line.translation).join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <Languages className="h-4 w-4" />
+        <span className="font-medium">Translate to</span>
+        <input
+          list="translation-languages"
+          value={targetLanguage}
+          onChange={(e) => setTargetLanguage(e.target.value)}
+          className={cn(inputClassName, "w-40")}
+        />
+        <datalist id="translation-languages">
+          {LANGUAGES.map(language => <option key={language} value={language} />)}
+        </datalist>
+        <span>with</span>
+        <select
+          value={selectedModel}
+          onChange={(e) => setModel(e.target.value)}
+          className={cn(inputClassName, "min-w-0 flex-1")}
+        >
+          {models.length === 0 && <option value="">No models installed</option>}
+          {models.map(m => (
+            <option key={m.id} value={m.id}>{m.id}{m.parameterSize ? ` (${m.parameterSize})` : ''}</option>
+          ))}
+        </select>
+        {isTranslating ? (
+          <button
+            onClick={cancel}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 transition-colors flex items-center gap-1"
+          >
+            <Square className="h-3 w-3" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={() => translate(text, { model: selectedModel, targetLanguage: targetLanguage.trim() })}
+            disabled={!selectedModel || !targetLanguage.trim()}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Translate
+          </button>
+        )}
+      </div>
+
+      {error && <ErrorNotice error={error} />}
+
+      {lines.length > 0 && (
+        <>
+          <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span className="flex items-center gap-1">
+              {isTranslating && <Loader2 className="h-3 w-3 animate-spin" />}
+              {isTranslating
+                ? 'Translating...'
+                : metadata?.cancelled
+                ? 'Translation cancelled'
+                : metadata
+                ? `${metadata.targetLanguage} · ${metadata.model} · ${(metadata.processingTime / 1000).toFixed(1)}s` +
+                  (metadata.missingLines ? ` · ${metadata.missingLines} lines not translated` : '')
+                : null}
+            </span>
+            {!isTranslating && metadata && (
+              <button onClick={handleCopy} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700" title="Copy translation">
+                {copied ? <Check className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
+              </button>
+            )}
+          </div>
+
+          {/* One row per original line keeps both columns aligned */}
+          <div className="max-h-[400px] overflow-y-auto rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900">
+            <table className="w-full text-sm table-fixed">
+              <tbody>
+                {lines.map((line, i) => (
+                  <tr key={i} className="align-top border-b border-gray-100 dark:border-gray-800 last:border-0">
+                    <td className="w-8 px-1 py-1 text-right text-xs text-gray-400 select-none">{i + 1}</td>
+                    <td dir="auto" className="px-2 py-1 whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100">{line.original}</td>
+                    <td
+                      dir="auto"
+                      className={cn(
+                        "px-2 py-1 whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100 border-l border-gray-100 dark:border-gray-800",
+                        line.missing && "bg-yellow-50 dark:bg-yellow-900/20"
+                      )}
+                      title={line.missing ? 'The model did not return this line' : undefined}
+                    >
+                      {line.translation}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
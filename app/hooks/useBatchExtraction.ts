@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { runFlow } from '@genkit-ai/next/client';
+import type { startBatchExtraction, getBatchStatus, cancelBatch, retryBatch } from '@/lib/genkit/flows';
+import { fileToBase64 } from '@/lib/utils';
+import { parseExtractionError } from '@/lib/errors';
+import type { GenerationOptions } from '@/lib/generation';
+
+export type BatchStatus = Awaited<ReturnType<typeof getBatchStatus>>;
+
+interface StartBatchOptions {
+  model: string;
+  prompt: string;
+  generation?: GenerationOptions;
+  language?: string;
+  concurrency: number;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+export function isBatchActive(batch: BatchStatus | null): boolean {
+  return !!batch?.items.some(item => item.status === 'queued' || item.status === 'running');
+}
+
+export function useBatchExtraction() {
+  const [batch, setBatch] = useState<BatchStatus | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = isBatchActive(batch);
+
+  // Poll the server-side queue while items are still pending
+  useEffect(() => {
+    if (!batch || !active) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const status = await runFlow<typeof getBatchStatus>({
+          url: '/api/batch/status',
+          input: { batchId: batch.id },
+        });
+        setBatch(status);
+      } catch (err) {
+        setError(parseExtractionError(err, 'Failed to fetch batch status').message);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [batch, active]);
+
+  const start = useCallback(async (files: File[], options: StartBatchOptions) => {
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const images = await Promise.all(
+        files.map(async file => ({
+          fileName: file.name,
+          imageBase64: await fileToBase64(file),
+        }))
+      );
+
+      const status = await runFlow<typeof startBatchExtraction>({
+        url: '/api/batch/start',
+        input: {
+          images,
+          model: options.model,
+          prompt: options.prompt,
+          outputFormat: 'text',
+          generation: options.generation,
+          language: options.language,
+          concurrency: options.concurrency,
+        },
+      });
+      setBatch(status);
+    } catch (err) {
+      setError(parseExtractionError(err, 'Failed to start batch').message);
+    } finally {
+      setIsStarting(false);
+    }
+  }, []);
+
+  const cancel = useCallback(async (itemIds?: string[]) => {
+    if (!batch) return;
+    try {
+      setBatch(await runFlow<typeof cancelBatch>({
+        url: '/api/batch/cancel',
+        input: { batchId: batch.id, itemIds },
+      }));
+    } catch (err) {
+      setError(parseExtractionError(err, 'Failed to cancel batch').message);
+    }
+  }, [batch]);
+
+  const retry = useCallback(async (itemIds?: string[]) => {
+    if (!batch) return;
+    try {
+      setBatch(await runFlow<typeof retryBatch>({
+        url: '/api/batch/retry',
+        input: { batchId: batch.id, itemIds },
+      }));
+    } catch (err) {
+      setError(parseExtractionError(err, 'Failed to retry batch').message);
+    }
+  }, [batch]);
+
+  const reset = useCallback(() => {
+    setBatch(null);
+    setError(null);
+  }, []);
+
+  return { batch, isActive: active, isStarting, error, start, cancel, retry, reset };
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntries,
+  listHistoryEntries,
+  updateHistoryEntry,
+  type HistoryEntry,
+} from '@/lib/history';
+
+export function useExtractionHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = (err: unknown, fallback: string) => {
+    console.error(fallback, err);
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch(err => report(err, 'Failed to load history'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const add = useCallback(async (...args: Parameters<typeof addHistoryEntry>) => {
+    try {
+      const entry = await addHistoryEntry(...args);
+      setEntries(prev => [entry, ...prev]);
+      return entry;
+    } catch (err) {
+      // History is best effort; a full or blocked database must not fail the extraction
+      report(err, 'Failed to save to history');
+      return undefined;
+    }
+  }, []);
+
+  const update = useCallback(async (...args: Parameters<typeof updateHistoryEntry>) => {
+    try {
+      const entry = await updateHistoryEntry(...args);
+      if (entry) setEntries(prev => prev.map(e => (e.id === entry.id ? entry : e)));
+    } catch (err) {
+      report(err, 'Failed to update history entry');
+    }
+  }, []);
+
+  const remove = useCallback(async (ids: string[]) => {
+    try {
+      await deleteHistoryEntries(ids);
+      setEntries(prev => prev.filter(entry => !ids.includes(entry.id)));
+    } catch (err) {
+      report(err, 'Failed to delete history entries');
+    }
+  }, []);
+
+  const clear = useCallback(async () => {
+    try {
+      await clearHistory();
+      setEntries([]);
+    } catch (err) {
+      report(err, 'Failed to clear history');
+    }
+  }, []);
+
+  return { entries, isLoading, error, add, update, remove, clear };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { runFlow } from '@genkit-ai/next/client';
+import type { getHotFolderStatus } from '@/lib/genkit/flows';
+import { parseExtractionError } from '@/lib/errors';
+
+export type HotFolderOverview = Awaited<ReturnType<typeof getHotFolderStatus>>;
+
+const POLL_INTERVAL_MS = 5000;
+
+// The watcher is a separate process, so its status file is polled while the view is open
+export function useHotFolderStatus(enabled: boolean) {
+  const [overview, setOverview] = useState<HotFolderOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const poll = async () => {
+      try {
+        const result = await runFlow<typeof getHotFolderStatus>({ url: '/api/hot-folders' });
+        if (cancelled) return;
+        setOverview(result);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(parseExtractionError(err, 'Failed to fetch hot folder status').message);
+      }
+      if (!cancelled) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled]);
+
+  return { overview, error };
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { chatAboutImage } from '@/lib/genkit/flows';
+import type { ChatMessage } from '@/lib/chat';
+import type { GenerationOptions } from '@/lib/generation';
+import { fileToBase64 } from '@/lib/utils';
+import { parseExtractionError, type ExtractionErrorInfo } from '@/lib/errors';
+
+interface AskOptions {
+  image: File;
+  model: string;
+  extractedText: string;
+  generation?: GenerationOptions;
+}
+
+/**
+ * Streams answers to follow-up questions about an image. `onMessagesChange`
+ * gets the conversation after every finished answer, so it can be saved and
+ * resumed later from `initialMessages`.
+ */
+export function useImageChat(initialMessages: ChatMessage[], onMessagesChange?: (messages: ChatMessage[]) => void) {
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [error, setError] = useState<ExtractionErrorInfo | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  // Resolves to false when the question was not answered (failed or cancelled)
+  const ask = useCallback(async (question: string, options: AskOptions): Promise<boolean> => {
+    cancel();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const asked = [...messages, { role: 'user' as const, text: question }];
+    setMessages([...asked, { role: 'model', text: '', model: options.model }]);
+    setError(null);
+    setIsAnswering(true);
+
+    const showReply = (text: string) => {
+      setMessages([...asked, { role: 'model', text, model: options.model }]);
+    };
+
+    try {
+      const { stream, output } = streamFlow<typeof chatAboutImage>({
+        url: '/api/chat',
+        input: {
+          imageBase64: await fileToBase64(options.image),
+          model: options.model,
+          extractedText: options.extractedText,
+          messages: asked,
+          generation: options.generation,
+        },
+        abortSignal: controller.signal,
+      });
+
+      let streamed = '';
+      for await (const chunk of stream) {
+        streamed += chunk;
+        showReply(streamed);
+      }
+
+      const { reply } = await output;
+      const answered = [...asked, { role: 'model' as const, text: reply, model: options.model }];
+      setMessages(answered);
+      onMessagesChange?.(answered);
+      return true;
+    } catch (err) {
+      // A question without an answer is dropped, so it can be asked again
+      setMessages(messages);
+      if (!controller.signal.aborted) {
+        setError(parseExtractionError(err, 'Failed to answer the question'));
+      }
+      return false;
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsAnswering(false);
+      }
+    }
+  }, [messages, cancel, onMessagesChange]);
+
+  return { messages, isAnswering, error, ask, cancel };
+}
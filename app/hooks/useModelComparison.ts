@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { extractTextFromImage } from '@/lib/genkit/flows';
+import type { PreprocessingStep } from '@/lib/preprocessing';
+import { fileToBase64 } from '@/lib/utils';
+import { parseExtractionError, type ExtractionErrorInfo } from '@/lib/errors';
+
+export interface ComparisonRun {
+  model: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  text: string;
+  error?: ExtractionErrorInfo;
+  /** Milliseconds from sending the request to the first streamed text. */
+  firstTokenMs?: number;
+  /** Milliseconds until the final output arrived. */
+  totalMs?: number;
+  metadata?: Record<string, any>;
+}
+
+interface StartComparisonOptions {
+  models: string[];
+  prompt: string;
+  preprocessing: PreprocessingStep[];
+  language?: string;
+}
+
+export function useModelComparison() {
+  const [runs, setRuns] = useState<ComparisonRun[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // The controller stays in the ref after aborting so late updates can still be matched to their run
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const updateRun = (model: string, changes: Partial<ComparisonRun> | ((run: ComparisonRun) => Partial<ComparisonRun>)) => {
+    setRuns(prev => prev.map(run =>
+      run.model === model ? { ...run, ...(typeof changes === 'function' ? changes(run) : changes) } : run
+    ));
+  };
+
+  // Streams the same image and prompt to every model at once; each column fills in independently
+  const start = useCallback(async (file: File, { models, prompt, preprocessing, language }: StartComparisonOptions) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setRuns(models.map(model => ({ model, status: 'running', text: '' })));
+    const imageBase64 = await fileToBase64(file);
+
+    // Ignore updates from a comparison that has been replaced by a newer one
+    const update: typeof updateRun = (model, changes) => {
+      if (abortControllerRef.current === controller) updateRun(model, changes);
+    };
+
+    await Promise.all(models.map(async model => {
+      const startedAt = performance.now();
+      try {
+        const { stream, output } = streamFlow<typeof extractTextFromImage>({
+          url: '/api/extract-text',
+          input: { model, imageBase64, prompt, outputFormat: 'text', preprocessing, language },
+          abortSignal: controller.signal,
+        });
+
+        for await (const chunk of stream) {
+          update(model, run => ({
+            text: run.text + chunk,
+            firstTokenMs: run.firstTokenMs ?? Math.round(performance.now() - startedAt),
+          }));
+        }
+
+        const result = await output;
+        update(model, {
+          status: 'completed',
+          text: result.extractedText,
+          totalMs: Math.round(performance.now() - startedAt),
+          metadata: result.metadata,
+        });
+      } catch (err) {
+        update(model, controller.signal.aborted ? {
+          status: 'cancelled',
+          totalMs: Math.round(performance.now() - startedAt),
+        } : {
+          status: 'failed',
+          error: parseExtractionError(err),
+          totalMs: Math.round(performance.now() - startedAt),
+        });
+      }
+    }));
+  }, []);
+
+  const reset = useCallback(() => setRuns([]), []);
+
+  const isRunning = runs.some(run => run.status === 'running');
+
+  return { runs, isRunning, start, cancel, reset };
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { runFlow, streamFlow } from '@genkit-ai/next/client';
+import type { getAvailableModels, pullModel, deleteModel, showModel } from '@/lib/genkit/flows';
+import { parseExtractionError } from '@/lib/errors';
+
+export type ModelInfo = Awaited<ReturnType<typeof getAvailableModels>>['models'][number];
+export type ModelDetails = Awaited<ReturnType<typeof showModel>>;
+
+export interface PullState {
+  status: string;
+  /** Download progress of the current layer, 0 to 100. */
+  percent?: number;
+  error?: string;
+}
+
+function without<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const { [key]: _removed, ...rest } = record;
+  return rest;
+}
+
+// Installed and installable vision models, with pull/delete/inspect actions
+export function useOllamaModels() {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pulls, setPulls] = useState<Record<string, PullState>>({});
+  const pullControllersRef = useRef(new Map<string, AbortController>());
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await runFlow<typeof getAvailableModels>({ url: '/api/models' });
+      setModels(result.models);
+    } catch (err) {
+      console.error('Failed to fetch models:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const controllers = pullControllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, [refresh]);
+
+  const install = useCallback(async (model: string) => {
+    const controller = new AbortController();
+    pullControllersRef.current.set(model, controller);
+    setPulls(prev => ({ ...prev, [model]: { status: 'starting download' } }));
+
+    try {
+      const { stream, output } = streamFlow<typeof pullModel>({
+        url: '/api/models/pull',
+        input: { model },
+        abortSignal: controller.signal,
+      });
+
+      for await (const progress of stream) {
+        const percent = progress.total ? Math.round(((progress.completed ?? 0) / progress.total) * 100) : undefined;
+        setPulls(prev => ({ ...prev, [model]: { status: progress.status, percent } }));
+      }
+      await output;
+
+      setPulls(prev => without(prev, model));
+      await refresh();
+    } catch (err) {
+      setPulls(prev => controller.signal.aborted
+        ? without(prev, model)
+        : { ...prev, [model]: { status: 'failed', error: parseExtractionError(err, 'Failed to download model').message } });
+    } finally {
+      pullControllersRef.current.delete(model);
+    }
+  }, [refresh]);
+
+  // Ollama keeps the downloaded layers, so a later install resumes
+  const cancelInstall = useCallback((model: string) => {
+    pullControllersRef.current.get(model)?.abort();
+  }, []);
+
+  const dismissPull = useCallback((model: string) => {
+    setPulls(prev => without(prev, model));
+  }, []);
+
+  const remove = useCallback(async (model: string) => {
+    setError(null);
+    try {
+      await runFlow<typeof deleteModel>({ url: '/api/models/delete', input: { model } });
+      await refresh();
+    } catch (err) {
+      setError(parseExtractionError(err, 'Failed to delete model').message);
+    }
+  }, [refresh]);
+
+  const inspect = useCallback(
+    (model: string) => runFlow<typeof showModel>({ url: '/api/models/show', input: { model } }),
+    []
+  );
+
+  return { models, loading, error, pulls, refresh, install, cancelInstall, dismissPull, remove, inspect };
+}
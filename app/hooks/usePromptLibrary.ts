@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { runFlow } from '@genkit-ai/next/client';
+import type { getPromptTemplates } from '@/lib/genkit/flows';
+import { useLocalStorage } from './useLocalStorage';
+import { createPromptTemplate, importPromptLibrary, type PromptTemplate } from '@/lib/prompts';
+
+// Name for a prompt saved before templates had names
+function legacyTemplateName(prompt: string): string {
+  const words = prompt.split(/\s+/).slice(0, 5).join(' ');
+  return words.length < prompt.length ? `${words}…` : words;
+}
+
+// Shared templates from the server followed by the ones saved in this browser
+export function usePromptLibrary() {
+  const [serverTemplates, setServerTemplates] = useState<PromptTemplate[]>([]);
+  const [localTemplates, setLocalTemplates] = useLocalStorage<PromptTemplate[]>('promptTemplates', []);
+  const [legacyPrompts, setLegacyPrompts] = useLocalStorage<string[]>('customPrompts', []);
+
+  useEffect(() => {
+    runFlow<typeof getPromptTemplates>({ url: '/api/prompts' })
+      .then(result => setServerTemplates(result.templates))
+      .catch(err => console.error('Failed to fetch prompt templates:', err));
+  }, []);
+
+  // Custom prompts from before templates existed are moved over once
+  useEffect(() => {
+    if (legacyPrompts.length === 0) return;
+    setLocalTemplates([
+      ...localTemplates,
+      ...legacyPrompts.map(prompt => createPromptTemplate({ name: legacyTemplateName(prompt), template: prompt })),
+    ]);
+    setLegacyPrompts([]);
+  }, [legacyPrompts, localTemplates, setLocalTemplates, setLegacyPrompts]);
+
+  const save = useCallback((template: PromptTemplate) => {
+    setLocalTemplates(prev =>
+      prev.some(t => t.id === template.id) ? prev.map(t => (t.id === template.id ? template : t)) : [...prev, template]
+    );
+  }, [setLocalTemplates]);
+
+  const remove = useCallback((id: string) => {
+    setLocalTemplates(prev => prev.filter(t => t.id !== id));
+  }, [setLocalTemplates]);
+
+  // Throws when the file is not an exported library
+  const importLibrary = useCallback((json: unknown): number => {
+    const { templates, imported } = importPromptLibrary(localTemplates, json);
+    setLocalTemplates(templates);
+    return imported;
+  }, [localTemplates, setLocalTemplates]);
+
+  return {
+    templates: [...serverTemplates, ...localTemplates],
+    localTemplates,
+    save,
+    remove,
+    importLibrary,
+  };
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { translateText } from '@/lib/genkit/flows';
+import { parseExtractionError, type ExtractionErrorInfo } from '@/lib/errors';
+
+export type TranslationResult = Awaited<ReturnType<typeof translateText>>;
+export type TranslationLine = TranslationResult['lines'][number];
+
+interface TranslateOptions {
+  model: string;
+  targetLanguage: string;
+  sourceLanguage?: string;
+}
+
+// Streams a line-aligned translation of extracted text
+export function useTranslation() {
+  const [lines, setLines] = useState<TranslationLine[]>([]);
+  const [metadata, setMetadata] = useState<TranslationResult['metadata'] | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<ExtractionErrorInfo | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const reset = useCallback(() => {
+    cancel();
+    setLines([]);
+    setMetadata(null);
+    setError(null);
+  }, [cancel]);
+
+  const translate = useCallback(async (text: string, options: TranslateOptions) => {
+    cancel();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Show the original right away; translations fill in line by line
+    setLines(text.split('\n').map(original => ({ original, translation: '' })));
+    setMetadata(null);
+    setError(null);
+    setIsTranslating(true);
+
+    try {
+      const { stream, output } = streamFlow<typeof translateText>({
+        url: '/api/translate',
+        input: { text, ...options },
+        abortSignal: controller.signal,
+      });
+
+      for await (const chunk of stream) {
+        setLines(prev => prev.map((line, i) => (i === chunk.line ? { ...line, translation: chunk.text } : line)));
+      }
+
+      const result = await output;
+      setLines(result.lines);
+      setMetadata(result.metadata);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(parseExtractionError(err, 'Translation failed'));
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsTranslating(false);
+      }
+    }
+  }, [cancel]);
+
+  return { lines, metadata, isTranslating, error, translate, cancel, reset };
+}
@@ -1,18 +1,61 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Header } from './components/Header';
 import { ImageUpload } from './components/ImageUpload';
 import { ImagePreview } from './components/ImagePreview';
 import { ModelSelector } from './components/ModelSelector';
 import { PromptInput } from './components/PromptInput';
 import { ExtractionResults } from './components/ExtractionResults';
-import { fileToBase64 } from '@/lib/utils';
-import { Loader2 } from 'lucide-react';
+import { SchemaSelector, type SchemaSelection } from './components/SchemaSelector';
+import { PreprocessingPanel } from './components/PreprocessingPanel';
+import { TilingControls, DEFAULT_TILING_OPTIONS } from './components/TilingControls';
+import { ConfidenceControls } from './components/ConfidenceControls';
+import { GenerationSettings } from './components/GenerationSettings';
+import { LayoutControls } from './components/LayoutControls';
+import { ImageChat } from './components/ImageChat';
+import { RegionList } from './components/RegionList';
+import { BatchUpload } from './components/BatchUpload';
+import { BatchResults } from './components/BatchResults';
+import { HistoryPanel } from './components/HistoryPanel';
+import { CompareModelPicker } from './components/CompareModelPicker';
+import { CompareResults } from './components/CompareResults';
+import { ErrorNotice } from './components/ErrorNotice';
+import { TranslationPanel } from './components/TranslationPanel';
+import { HotFolderPanel } from './components/HotFolderPanel';
+import { HotFolderActivity } from './components/HotFolderActivity';
+import { useBatchExtraction } from './hooks/useBatchExtraction';
+import { useExtractionHistory } from './hooks/useExtractionHistory';
+import { useModelComparison } from './hooks/useModelComparison';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { useHotFolderStatus } from './hooks/useHotFolderStatus';
+import { cn, fileToBase64, isPdfFile } from '@/lib/utils';
+import { sectionMarker, pageTitle, type TextSection } from '@/lib/sections';
+import { DEFAULT_PREPROCESSING_OPTIONS, toPreprocessingSteps } from '@/lib/preprocessing';
+import { defaultRegionLabel, type Region } from '@/lib/regions';
+import { getHistoryFile, type HistoryEntry } from '@/lib/history';
+import { parseExtractionError, type ExtractionErrorInfo } from '@/lib/errors';
+import type { ConfidenceEstimate } from '@/lib/confidence';
+import type { GenerationOptions } from '@/lib/generation';
+import { Loader2, Image as ImageIcon, Images, History, Columns3, Square, FolderInput } from 'lucide-react';
 import { streamFlow } from '@genkit-ai/next/client';
-import type { extractTextFromImage } from '@/lib/genkit/flows';
+import type { extractTextFromImage, extractTextFromDocument, extractTextFromTiles, extractTextFromRegions } from '@/lib/genkit/flows';
+
+type Mode = 'single' | 'compare' | 'batch' | 'history' | 'folders';
+
+// What a finished extraction leaves behind, whichever path produced it
+type ExtractionOutcome = Pick<HistoryEntry, 'extractedText' | 'structuredData' | 'sections' | 'confidence' | 'metadata'>;
 
 export default function Home() {
+  const [mode, setMode] = useState<Mode>('single');
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(2);
+  const batchExtraction = useBatchExtraction();
+  const history = useExtractionHistory();
+  const hotFolders = useHotFolderStatus(mode === 'folders');
+  const [openedEntryId, setOpenedEntryId] = useState<string | null>(null);
+  const comparison = useModelComparison();
+  const [compareModels, setCompareModels] = useLocalStorage<string[]>('compareModels', []);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [selectedModel, setSelectedModel] = useState('');
   const [extractionPrompt, setExtractionPrompt] = useState(
@@ -20,59 +63,334 @@ export default function Home() {
   );
   const [isExtracting, setIsExtracting] = useState(false);
   const [extractedText, setExtractedText] = useState('');
-  const [confidence, setConfidence] = useState('');
+  const [confidence, setConfidence] = useState<ConfidenceEstimate>();
+  const [confidenceSamples, setConfidenceSamples] = useLocalStorage('confidenceSamples', 0);
+  const [preserveLayout, setPreserveLayout] = useLocalStorage('preserveLayout', false);
+  const [generationOptions, setGenerationOptions] = useLocalStorage<GenerationOptions>('generationOptions', {});
+  // Nothing changed means Ollama's defaults (and the app's default temperature)
+  const generation = Object.keys(generationOptions).length > 0 ? generationOptions : undefined;
+  const [extractionLanguage, setExtractionLanguage] = useLocalStorage('extractionLanguage', '');
+  const language = extractionLanguage || undefined;
   const [metadata, setMetadata] = useState<Record<string, any>>({});
+  const [schemaSelection, setSchemaSelection] = useState<SchemaSelection | null>(null);
+  const [structuredData, setStructuredData] = useState<unknown>(undefined);
+  const [sections, setSections] = useState<TextSection[] | undefined>(undefined);
+  const [preprocessingOptions, setPreprocessingOptions] = useState(DEFAULT_PREPROCESSING_OPTIONS);
+  const [tilingOptions, setTilingOptions] = useState(DEFAULT_TILING_OPTIONS);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort the running extraction; the server passes the signal on to Ollama
+  const cancelExtraction = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  };
+
+  // Don't leave a model running for a page that is gone
+  useEffect(() => cancelExtraction, []);
+
+  // Rotation, crop and other adjustments belong to one image; saved layouts bring regions back
+  const handleImageSelect = (file: File | null) => {
+    cancelExtraction();
+    setSelectedImage(file);
+    setPreprocessingOptions(DEFAULT_PREPROCESSING_OPTIONS);
+    setRegions([]);
+  };
   const [streamingText, setStreamingText] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ExtractionErrorInfo | null>(null);
   const [processingStatus, setProcessingStatus] = useState<string>('');
 
-  const handleExtract = async () => {
-    if (!selectedImage) return;
+  // PDFs are rasterized server-side and streamed back page by page
+  const extractDocument = async (pdfBase64: string, abortSignal: AbortSignal): Promise<ExtractionOutcome> => {
+    setProcessingStatus('Rendering PDF pages...');
 
-    setIsExtracting(true);
+    const { stream, output } = streamFlow<typeof extractTextFromDocument>({
+      url: '/api/extract-document',
+      abortSignal,
+      input: {
+        model: selectedModel,
+        pdfBase64,
+        prompt: extractionPrompt,
+        outputFormat: preserveLayout ? 'markdown' : 'text',
+        generation,
+        language,
+      }
+    });
+
+    let currentPage = 0;
+    for await (const chunk of stream) {
+      if (chunk.page !== currentPage) {
+        currentPage = chunk.page;
+        setStreamingText(prev => `${prev}${prev ? '\n\n' : ''}${sectionMarker(pageTitle(chunk.page))}\n\n`);
+      }
+      setProcessingStatus(`Extracting page ${chunk.page} of ${chunk.pageCount}...`);
+      if (chunk.text) {
+        setStreamingText(prev => prev + chunk.text);
+      }
+    }
+
+    const result = await output;
+    const pages = result.pages.map(({ page, text, error }) => ({ title: pageTitle(page), text, error }));
+    setExtractedText(result.extractedText);
+    setStreamingText('');
+    setSections(pages);
+    setMetadata(result.metadata);
+    setProcessingStatus('');
+    return { extractedText: result.extractedText, sections: pages, metadata: result.metadata };
+  };
+
+  // Large images are split into overlapping tiles; completed tiles stream in as they finish
+  const extractTiles = async (imageBase64: string, abortSignal: AbortSignal): Promise<ExtractionOutcome> => {
+    setProcessingStatus('Splitting image into tiles...');
+
+    const { stream, output } = streamFlow<typeof extractTextFromTiles>({
+      url: '/api/extract-tiles',
+      abortSignal,
+      input: {
+        model: selectedModel,
+        imageBase64,
+        prompt: extractionPrompt,
+        tileSize: tilingOptions.tileSize ?? undefined,
+        overlap: tilingOptions.overlap,
+        concurrency: tilingOptions.concurrency,
+        preprocessing: toPreprocessingSteps(preprocessingOptions),
+        generation,
+        language,
+      }
+    });
+
+    let finished = 0;
+    for await (const chunk of stream) {
+      if (chunk.status === 'extracting') {
+        setProcessingStatus(`Extracting tile ${chunk.tile + 1} of ${chunk.tileCount} (${finished} done)...`);
+        continue;
+      }
+      finished++;
+      setProcessingStatus(`Extracted ${finished} of ${chunk.tileCount} tiles...`);
+      setStreamingText(prev =>
+        `${prev}${prev ? '\n\n' : ''}--- Tile ${chunk.tile + 1} (row ${chunk.row + 1}, column ${chunk.col + 1}) ---\n\n${chunk.text ?? ''}`
+      );
+    }
+
+    const result = await output;
+    const metadata = { ...result.metadata, tileCount: result.tiles.length, failedTiles: result.tiles.filter(tile => tile.error).length };
+    setExtractedText(result.extractedText);
+    setStreamingText('');
+    setMetadata(metadata);
+    setProcessingStatus('');
+    return { extractedText: result.extractedText, metadata };
+  };
+
+  // Only the drawn regions are sent to the model, each one becoming a labeled section
+  const extractRegions = async (imageBase64: string, abortSignal: AbortSignal): Promise<ExtractionOutcome> => {
+    setProcessingStatus('Cropping regions...');
+
+    const { stream, output } = streamFlow<typeof extractTextFromRegions>({
+      url: '/api/extract-regions',
+      abortSignal,
+      input: {
+        model: selectedModel,
+        imageBase64,
+        prompt: extractionPrompt,
+        outputFormat: preserveLayout ? 'markdown' : 'text',
+        regions: regions.map((region, index) => ({
+          ...region,
+          label: region.label.trim() || defaultRegionLabel(index),
+        })),
+        preprocessing: toPreprocessingSteps(preprocessingOptions),
+        generation,
+        language,
+      }
+    });
+
+    let currentRegion = -1;
+    for await (const chunk of stream) {
+      if (chunk.region !== currentRegion) {
+        currentRegion = chunk.region;
+        setStreamingText(prev => `${prev}${prev ? '\n\n' : ''}${sectionMarker(chunk.label)}\n\n`);
+      }
+      setProcessingStatus(`Extracting region ${chunk.region + 1} of ${chunk.regionCount} (${chunk.label})...`);
+      if (chunk.text) {
+        setStreamingText(prev => prev + chunk.text);
+      }
+    }
+
+    const result = await output;
+    const regionSections = result.regions.map(({ label, text, error }) => ({ title: label, text, error }));
+    setExtractedText(result.extractedText);
+    setStreamingText('');
+    setSections(regionSections);
+    setMetadata(result.metadata);
+    setProcessingStatus('');
+    return { extractedText: result.extractedText, sections: regionSections, metadata: result.metadata };
+  };
+
+  // Single images go through the main flow, with structured output when a schema is selected
+  const extractImage = async (imageBase64: string, abortSignal: AbortSignal): Promise<ExtractionOutcome> => {
+    setProcessingStatus('Sending to vision model...');
+    // Confidence sampling only applies to free text
+    const samples = schemaSelection ? 0 : confidenceSamples;
+    
+    // Use streamFlow from Genkit client
+    const { stream, output } = streamFlow<typeof extractTextFromImage>({
+      url: '/api/extract-text',
+      abortSignal,
+      input: {
+        model: selectedModel,
+        imageBase64,
+        prompt: extractionPrompt,
+        outputFormat: schemaSelection ? 'json' : preserveLayout ? 'markdown' : 'text',
+        ...schemaSelection,
+        preprocessing: toPreprocessingSteps(preprocessingOptions),
+        confidenceSamples: samples || undefined,
+        generation,
+        language,
+      }
+    });
+
+    setProcessingStatus(samples ? `Extracting text, then sampling ${samples} more readings...` : 'Extracting text...');
+
+    // Process the stream
+    for await (const chunk of stream) {
+      setStreamingText(prev => prev + chunk);
+    }
+
+    // Wait for the final output
+    const result = await output;
+    setExtractedText(result.extractedText);
+    // The final output can differ from the raw stream (e.g. repaired JSON)
+    setStreamingText('');
+    setStructuredData(result.structuredData);
+    setConfidence(result.confidence);
+    setMetadata(result.metadata || {});
+    setProcessingStatus('');
+    return {
+      extractedText: result.extractedText,
+      structuredData: result.structuredData,
+      confidence: result.confidence,
+      metadata: result.metadata,
+    };
+  };
+
+  const resetResults = () => {
     setError(null);
     setExtractedText('');
     setStreamingText('');
-    setConfidence('');
+    setConfidence(undefined);
     setMetadata({});
+    setStructuredData(undefined);
+    setSections(undefined);
+    setOpenedEntryId(null);
+  };
+
+  const handleExtract = async () => {
+    if (!selectedImage) return;
+
+    cancelExtraction();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsExtracting(true);
+    resetResults();
     setProcessingStatus('Preparing image...');
 
     try {
       const base64Image = await fileToBase64(selectedImage);
-      
-      setProcessingStatus('Sending to vision model...');
-      
-      // Use streamFlow from Genkit client
-      const { stream, output } = streamFlow<typeof extractTextFromImage>({
-        url: '/api/extract-text',
-        input: {
-          model: selectedModel,
-          imageBase64: base64Image,
-          prompt: extractionPrompt,
-          outputFormat: 'text',
-        }
-      });
-
-      setProcessingStatus('Extracting text...');
+      const { signal } = controller;
 
-      // Process the stream
-      for await (const chunk of stream) {
-        setStreamingText(prev => prev + chunk);
-      }
+      const outcome = isPdfFile(selectedImage)
+        ? await extractDocument(base64Image, signal)
+        : regions.length > 0
+        ? await extractRegions(base64Image, signal)
+        : tilingOptions.enabled
+        ? await extractTiles(base64Image, signal)
+        : await extractImage(base64Image, signal);
 
-      // Wait for the final output
-      const result = await output;
-      setExtractedText(result.extractedText);
-      setConfidence(result.metadata?.confidence || 'High');
-      setMetadata(result.metadata || {});
-      setProcessingStatus('');
+      // Saved before the results are shown, so follow-up questions are stored with the entry
+      const entry = await history.add(selectedImage, {
+        ...outcome,
+        model: selectedModel,
+        prompt: extractionPrompt,
+        processingTime: outcome.metadata.processingTime ?? 0,
+      });
+      setOpenedEntryId(entry?.id ?? null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to extract text');
+      if (controller.signal.aborted) {
+        // Keep whatever was streamed so far, flagged as partial
+        setMetadata({ model: selectedModel, cancelled: true });
+        setProcessingStatus('');
+      } else {
+        setError(parseExtractionError(err));
+      }
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsExtracting(false);
     }
   };
 
+  // Show a saved result next to its original image
+  const handleOpenEntry = async (entry: HistoryEntry) => {
+    resetResults();
+    setOpenedEntryId(entry.id);
+    setExtractedText(entry.extractedText);
+    setStructuredData(entry.structuredData);
+    setSections(entry.sections);
+    setMetadata(entry.metadata);
+    setConfidence(entry.confidence);
+
+    const file = await getHistoryFile(entry.id);
+    if (file) handleImageSelect(file);
+  };
+
+  // Restore the image and prompt; the model selector keeps its choice so a different one can be picked
+  const handleRerunEntry = async (entry: HistoryEntry) => {
+    const file = await getHistoryFile(entry.id);
+    if (!file) {
+      setError({ message: `The original image for ${entry.fileName} is no longer available` });
+      return;
+    }
+
+    resetResults();
+    handleImageSelect(file);
+    setExtractionPrompt(entry.prompt);
+    setMode('single');
+  };
+
+  const handleCompare = async () => {
+    if (!selectedImage || compareModels.length === 0) return;
+
+    setError(null);
+    try {
+      await comparison.start(selectedImage, {
+        models: compareModels,
+        prompt: extractionPrompt,
+        preprocessing: toPreprocessingSteps(preprocessingOptions),
+        language,
+      });
+    } catch (err) {
+      setError(parseExtractionError(err, 'Failed to compare models'));
+    }
+  };
+
+  const handleStartBatch = async () => {
+    if (batchFiles.length === 0 || !selectedModel) return;
+
+    await batchExtraction.start(batchFiles, {
+      model: selectedModel,
+      prompt: extractionPrompt,
+      generation,
+      language,
+      concurrency: batchConcurrency,
+    });
+    setBatchFiles([]);
+  };
+
+  const hasInput = mode === 'single' || mode === 'compare'
+    ? !!selectedImage
+    : mode === 'batch' && (batchFiles.length > 0 || !!batchExtraction.batch);
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
       <Header />
@@ -83,42 +401,147 @@ export default function Home() {
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Left Column - Input */}
             <div className="space-y-4">
-              <ImageUpload 
-                onImageSelect={setSelectedImage}
-                currentImage={selectedImage}
-              />
-              
-              {selectedImage && (
+              <div className="flex bg-gray-100 dark:bg-gray-800 rounded-lg p-1 w-fit">
+                {([
+                  { id: 'single', label: 'Single Image', icon: ImageIcon },
+                  { id: 'compare', label: 'Compare', icon: Columns3 },
+                  { id: 'batch', label: 'Batch', icon: Images },
+                  { id: 'history', label: 'History', icon: History },
+                  { id: 'folders', label: 'Hot Folders', icon: FolderInput },
+                ] as const).map(({ id, label, icon: Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => setMode(id)}
+                    className={cn(
+                      "px-3 py-1 rounded-md text-sm transition-colors flex items-center gap-1",
+                      mode === id
+                        ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow"
+                        : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                    )}
+                  >
+                    <Icon className="h-3 w-3" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {mode === 'folders' ? (
+                <HotFolderPanel overview={hotFolders.overview} error={hotFolders.error} />
+              ) : mode === 'history' ? (
+                <HistoryPanel
+                  entries={history.entries}
+                  isLoading={history.isLoading}
+                  error={history.error}
+                  selectedId={openedEntryId}
+                  onOpen={handleOpenEntry}
+                  onRerun={handleRerunEntry}
+                  onDelete={history.remove}
+                  onClear={history.clear}
+                />
+              ) : mode === 'single' || mode === 'compare' ? (
                 <>
-                  {/* Compact image preview */}
-                  <div className="bg-gray-100 dark:bg-gray-900 rounded-lg p-4 max-h-[300px] overflow-hidden">
-                    <ImagePreview file={selectedImage} />
-                  </div>
+                  <ImageUpload 
+                    onImageSelect={handleImageSelect}
+                    currentImage={selectedImage}
+                  />
                   
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Compact image preview */}
+                  {selectedImage && (
+                    <div className="bg-gray-100 dark:bg-gray-900 rounded-lg p-4 max-h-[300px] overflow-hidden">
+                      <ImagePreview
+                        file={selectedImage}
+                        rotation={preprocessingOptions.rotate}
+                        onRotationChange={(rotate) => setPreprocessingOptions(prev => ({ ...prev, rotate }))}
+                        regions={regions}
+                        onRegionsChange={mode === 'single' && !isPdfFile(selectedImage) ? setRegions : undefined}
+                      />
+                    </div>
+                  )}
+                </>
+              ) : (
+                <BatchUpload
+                  files={batchFiles}
+                  onFilesChange={setBatchFiles}
+                  concurrency={batchConcurrency}
+                  onConcurrencyChange={setBatchConcurrency}
+                  disabled={batchExtraction.isStarting}
+                />
+              )}
+              
+              {hasInput && mode === 'compare' && (
+                <div className="space-y-3">
+                  <CompareModelPicker
+                    selected={compareModels}
+                    onSelectedChange={setCompareModels}
+                    disabled={comparison.isRunning}
+                  />
+                  {comparison.isRunning ? (
+                    <button
+                      onClick={comparison.cancel}
+                      className="w-full py-3 px-4 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Square className="h-4 w-4" />
+                      Cancel Comparison
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleCompare}
+                      disabled={!selectedImage || isPdfFile(selectedImage) || compareModels.length === 0}
+                      className="w-full py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                      title={selectedImage && isPdfFile(selectedImage) ? 'Compare mode works on single images' : undefined}
+                    >
+                      {`Compare ${compareModels.length} Model${compareModels.length === 1 ? '' : 's'}`}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {hasInput && (
+                <>
+                  <div className={cn("grid grid-cols-1 md:grid-cols-2 gap-4", mode === 'compare' && "hidden")}>
                     <ModelSelector
                       onModelSelect={setSelectedModel}
                       currentModel={selectedModel}
                     />
                     
-                    <button
-                      onClick={handleExtract}
-                      disabled={isExtracting || !selectedImage || !selectedModel}
-                      className="h-fit self-end py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                      title={!selectedModel ? 'Please select a model first' : undefined}
-                    >
-                      {isExtracting ? (
-                        <>
-                          <Loader2 className="h-5 w-5 animate-spin" />
-                          Extracting...
-                        </>
-                      ) : (
-                        'Extract Text'
-                      )}
-                    </button>
+                    {mode === 'single' && isExtracting ? (
+                      <button
+                        onClick={cancelExtraction}
+                        className="h-fit self-end py-3 px-4 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center gap-2"
+                        title="Stop the extraction and keep the partial result"
+                      >
+                        <Square className="h-4 w-4" />
+                        Cancel
+                      </button>
+                    ) : mode === 'single' ? (
+                      <button
+                        onClick={handleExtract}
+                        disabled={!selectedImage || !selectedModel}
+                        className="h-fit self-end py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                        title={!selectedModel ? 'Please select a model first' : undefined}
+                      >
+                        Extract Text
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleStartBatch}
+                        disabled={batchExtraction.isStarting || batchFiles.length === 0 || !selectedModel}
+                        className="h-fit self-end py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                        title={!selectedModel ? 'Please select a model first' : undefined}
+                      >
+                        {batchExtraction.isStarting ? (
+                          <>
+                            <Loader2 className="h-5 w-5 animate-spin" />
+                            Uploading...
+                          </>
+                        ) : (
+                          `Queue ${batchFiles.length} Image${batchFiles.length === 1 ? '' : 's'}`
+                        )}
+                      </button>
+                    )}
                   </div>
                   
-                  {processingStatus && (
+                  {mode === 'single' && processingStatus && (
                     <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
                       <p className="text-sm text-blue-600 dark:text-blue-400 flex items-center gap-2">
                         <Loader2 className="h-4 w-4 animate-spin" />
@@ -135,9 +558,81 @@ export default function Home() {
                       <PromptInput
                         onPromptChange={setExtractionPrompt}
                         currentPrompt={extractionPrompt}
+                        language={extractionLanguage}
+                        onLanguageChange={setExtractionLanguage}
+                        model={selectedModel}
+                        onTemplateSelect={(template) => {
+                          if (template.defaultModel) setSelectedModel(template.defaultModel);
+                          if (template.outputFormat) setPreserveLayout(template.outputFormat === 'markdown');
+                        }}
                       />
                     </div>
                   </details>
+
+                  {/* PDFs, regions and plain images; tiles are stitched as plain text and schemas return JSON */}
+                  {mode === 'single' && selectedImage && (isPdfFile(selectedImage) || regions.length > 0 || (!tilingOptions.enabled && !schemaSelection)) && (
+                    <LayoutControls
+                      preserveLayout={preserveLayout}
+                      onPreserveLayoutChange={setPreserveLayout}
+                    />
+                  )}
+
+                  {mode !== 'compare' && (
+                    <GenerationSettings
+                      model={selectedModel}
+                      options={generationOptions}
+                      onOptionsChange={setGenerationOptions}
+                    />
+                  )}
+
+                  {mode === 'compare' && selectedImage && !isPdfFile(selectedImage) && (
+                    <PreprocessingPanel
+                      file={selectedImage}
+                      model={compareModels[0] ?? ''}
+                      options={preprocessingOptions}
+                      onOptionsChange={setPreprocessingOptions}
+                    />
+                  )}
+
+                  {mode === 'single' && selectedImage && !isPdfFile(selectedImage) && (
+                    <>
+                      <PreprocessingPanel
+                        file={selectedImage}
+                        model={selectedModel}
+                        options={preprocessingOptions}
+                        onOptionsChange={setPreprocessingOptions}
+                      />
+
+                      <RegionList
+                        regions={regions}
+                        onRegionsChange={setRegions}
+                      />
+
+                      {/* Regions take precedence over tiling */}
+                      <div className={cn(regions.length > 0 && "hidden")}>
+                        <TilingControls
+                          options={tilingOptions}
+                          onOptionsChange={setTilingOptions}
+                        />
+                      </div>
+
+                      {/* Confidence sampling runs on single, unstructured extractions */}
+                      {!tilingOptions.enabled && regions.length === 0 && !schemaSelection && (
+                        <ConfidenceControls
+                          samples={confidenceSamples}
+                          onSamplesChange={setConfidenceSamples}
+                        />
+                      )}
+
+                      {/* Tiled and region extraction always return plain text, so the schema is hidden but kept */}
+                      <div className={cn(
+                        "bg-gray-50 dark:bg-gray-800 rounded-lg p-4",
+                        (tilingOptions.enabled || regions.length > 0) && "hidden"
+                      )}>
+                        <SchemaSelector onSchemaChange={setSchemaSelection} />
+                      </div>
+                    </>
+                  )}
                 </>
               )}
             </div>
@@ -145,15 +640,77 @@ export default function Home() {
             {/* Right Column - Results (always visible) */}
             <div className="lg:sticky lg:top-24 lg:h-[calc(100vh-7rem)]">
               <div className="space-y-4 h-full flex flex-col">
-                {error && (
+                {mode !== 'batch' && mode !== 'folders' && error && <ErrorNotice error={error} />}
+
+                {mode === 'batch' && batchExtraction.error && (
                   <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
-                    <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                    <p className="text-sm text-red-600 dark:text-red-400">{batchExtraction.error}</p>
                   </div>
                 )}
                 
                 {/* Results area with visual indicator */}
                 <div className={`flex-1 relative ${!selectedImage && !extractedText && !isExtracting ? '' : ''}`}>
-                  {(!selectedImage && !extractedText && !isExtracting) ? (
+                  {mode === 'compare' ? (
+                    comparison.runs.length > 0 ? (
+                      <CompareResults runs={comparison.runs} />
+                    ) : (
+                      <div className="h-full flex items-center justify-center bg-gray-100 dark:bg-gray-900 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700">
+                        <div className="text-center">
+                          <p className="text-gray-500 dark:text-gray-400 text-lg mb-2">
+                            Model outputs will appear side by side
+                          </p>
+                          <p className="text-gray-400 dark:text-gray-500 text-sm">
+                            👈 Upload an image and pick the models to compare
+                          </p>
+                        </div>
+                      </div>
+                    )
+                  ) : mode === 'batch' ? (
+                    batchExtraction.batch ? (
+                      <BatchResults
+                        batch={batchExtraction.batch}
+                        onCancel={batchExtraction.cancel}
+                        onRetry={batchExtraction.retry}
+                      />
+                    ) : (
+                      <div className="h-full flex items-center justify-center bg-gray-100 dark:bg-gray-900 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700">
+                        <div className="text-center">
+                          <p className="text-gray-500 dark:text-gray-400 text-lg mb-2">
+                            Batch progress will appear here
+                          </p>
+                          <p className="text-gray-400 dark:text-gray-500 text-sm">
+                            👈 Add images and queue them to get started
+                          </p>
+                        </div>
+                      </div>
+                    )
+                  ) : mode === 'folders' ? (
+                    hotFolders.overview?.status?.recent.length ? (
+                      <HotFolderActivity recent={hotFolders.overview.status.recent} />
+                    ) : (
+                      <div className="h-full flex items-center justify-center bg-gray-100 dark:bg-gray-900 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700">
+                        <div className="text-center">
+                          <p className="text-gray-500 dark:text-gray-400 text-lg mb-2">
+                            Processed files will appear here
+                          </p>
+                          <p className="text-gray-400 dark:text-gray-500 text-sm">
+                            👈 Drop scans into a hot folder while the watcher runs
+                          </p>
+                        </div>
+                      </div>
+                    )
+                  ) : mode === 'history' && !openedEntryId ? (
+                    <div className="h-full flex items-center justify-center bg-gray-100 dark:bg-gray-900 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700">
+                      <div className="text-center">
+                        <p className="text-gray-500 dark:text-gray-400 text-lg mb-2">
+                          Saved results will appear here
+                        </p>
+                        <p className="text-gray-400 dark:text-gray-500 text-sm">
+                          👈 Pick an entry from the history
+                        </p>
+                      </div>
+                    </div>
+                  ) : (!selectedImage && !extractedText && !isExtracting) ? (
                     <div className="h-full flex items-center justify-center bg-gray-100 dark:bg-gray-900 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700">
                       <div className="text-center">
                         <p className="text-gray-500 dark:text-gray-400 text-lg mb-2">
@@ -165,13 +722,35 @@ export default function Home() {
                       </div>
                     </div>
                   ) : (
-                    <ExtractionResults
-                      extractedText={extractedText}
-                      confidence={confidence}
-                      metadata={metadata}
-                      isLoading={isExtracting}
-                      streamingText={streamingText}
-                    />
+                    <div className="space-y-4">
+                      <ExtractionResults
+                        extractedText={extractedText}
+                        confidence={confidence}
+                        metadata={metadata}
+                        isLoading={isExtracting}
+                        streamingText={streamingText}
+                        structuredData={structuredData}
+                        sections={sections}
+                        failed={!!error}
+                        isMarkdown={metadata.outputFormat === 'markdown'}
+                      />
+                      {/* Free text only; translating JSON line by line would break it */}
+                      {extractedText && !isExtracting && structuredData === undefined && (
+                        <TranslationPanel text={extractedText} />
+                      )}
+                      {/* PDFs are only rasterized on the server, so there is no image to ask about */}
+                      {extractedText && !isExtracting && selectedImage && !isPdfFile(selectedImage) && (
+                        <ImageChat
+                          key={openedEntryId ?? 'unsaved'}
+                          image={selectedImage}
+                          model={selectedModel}
+                          extractedText={extractedText}
+                          generation={generation}
+                          initialMessages={history.entries.find(entry => entry.id === openedEntryId)?.chat}
+                          onMessagesChange={openedEntryId ? (chat) => history.update(openedEntryId, { chat }) : undefined}
+                        />
+                      )}
+                    </div>
                   )}
                 </div>
               </div>
@@ -0,0 +1,27 @@
+import { zipSync, strToU8 } from 'fflate';
+
+/**
+ * Builds a zip archive from a map of file paths to text contents.
+ */
+export function createZipArchive(files: Record<string, string>): Blob {
+  const entries = Object.fromEntries(
+    Object.entries(files).map(([path, content]) => [path, strToU8(content)])
+  );
+  return new Blob([zipSync(entries)], { type: 'application/zip' });
+}
+
+/**
+ * Returns a file name that is not yet in `taken`, appending a counter if needed.
+ */
+export function uniqueFileName(name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+
+  let candidate = name;
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${base}-${i}${extension}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
@@ -0,0 +1,187 @@
+import { parseExtractionError, type ExtractionErrorCode } from './errors';
+import type { GenerationOptions } from './generation';
+
+export type BatchItemStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchItemResult {
+  extractedText: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  /** Released once the item completes; failed and cancelled items keep it for a retry. */
+  imageBase64?: string;
+  status: BatchItemStatus;
+  attempts: number;
+  result?: BatchItemResult;
+  error?: string;
+  errorCode?: ExtractionErrorCode;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchOptions {
+  model: string;
+  prompt?: string;
+  outputFormat?: 'text' | 'json' | 'markdown';
+  generation?: GenerationOptions;
+  /** Expected language of the text; see `LANGUAGE_HINTS`. */
+  language?: string;
+  concurrency: number;
+}
+
+export type BatchItemProcessor = (item: BatchItem, options: BatchOptions, signal: AbortSignal) => Promise<BatchItemResult>;
+
+export interface Batch {
+  id: string;
+  createdAt: number;
+  options: BatchOptions;
+  items: BatchItem[];
+  processor: BatchItemProcessor;
+  running: number;
+}
+
+// Finished batches kept in memory so the UI can still export them
+const MAX_RETAINED_BATCHES = 20;
+
+// Keep the queue on globalThis so it survives Next.js hot reloads in dev
+const globalForBatches = globalThis as unknown as { __batches?: Map<string, Batch> };
+const batches = globalForBatches.__batches ?? (globalForBatches.__batches = new Map());
+
+// Controllers of running items, so cancelling also stops the model request
+const runningControllers = new WeakMap<BatchItem, AbortController>();
+
+function isFinished(batch: Batch): boolean {
+  return batch.items.every(item => item.status !== 'queued' && item.status !== 'running');
+}
+
+function pruneFinishedBatches() {
+  const finished = [...batches.values()]
+    .filter(isFinished)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  while (batches.size > MAX_RETAINED_BATCHES && finished.length > 0) {
+    batches.delete(finished.shift()!.id);
+  }
+}
+
+/**
+ * Starts as many queued items as the batch concurrency limit allows.
+ */
+function pump(batch: Batch) {
+  while (batch.running < batch.options.concurrency) {
+    const next = batch.items.find(item => item.status === 'queued');
+    if (!next) break;
+    void runItem(batch, next);
+  }
+}
+
+async function runItem(batch: Batch, item: BatchItem) {
+  const attempt = item.attempts + 1;
+  item.status = 'running';
+  item.attempts = attempt;
+  item.error = undefined;
+  item.errorCode = undefined;
+  item.startedAt = Date.now();
+  item.finishedAt = undefined;
+  batch.running++;
+
+  const controller = new AbortController();
+  runningControllers.set(item, controller);
+
+  try {
+    const result = await batch.processor(item, batch.options, controller.signal);
+    // Ignore late results from an item that was cancelled or retried meanwhile
+    if (item.status === 'running' && item.attempts === attempt) {
+      item.status = 'completed';
+      item.result = result;
+      item.imageBase64 = undefined;
+    }
+  } catch (error) {
+    if (item.status === 'running' && item.attempts === attempt) {
+      item.status = 'failed';
+      const { code, message } = parseExtractionError(error, 'Failed to extract text from image');
+      item.error = message;
+      item.errorCode = code;
+    }
+  } finally {
+    if (runningControllers.get(item) === controller) {
+      runningControllers.delete(item);
+    }
+    if (item.attempts === attempt && !item.finishedAt) {
+      item.finishedAt = Date.now();
+    }
+    batch.running--;
+    pump(batch);
+  }
+}
+
+/**
+ * Creates a batch, queues all of its images and starts processing them.
+ */
+export function createBatch(
+  files: { fileName: string; imageBase64: string }[],
+  options: BatchOptions,
+  processor: BatchItemProcessor
+): Batch {
+  const batch: Batch = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    options,
+    items: files.map(file => ({
+      id: crypto.randomUUID(),
+      fileName: file.fileName,
+      imageBase64: file.imageBase64,
+      status: 'queued',
+      attempts: 0,
+    })),
+    processor,
+    running: 0,
+  };
+
+  batches.set(batch.id, batch);
+  pruneFinishedBatches();
+  pump(batch);
+
+  return batch;
+}
+
+export function getBatch(batchId: string): Batch | undefined {
+  return batches.get(batchId);
+}
+
+/**
+ * Cancels queued or running items. All items are cancelled when no ids are given.
+ * Running requests are aborted, which also stops generation in Ollama.
+ */
+export function cancelBatchItems(batch: Batch, itemIds?: string[]) {
+  for (const item of batch.items) {
+    if (itemIds && !itemIds.includes(item.id)) continue;
+    if (item.status === 'queued' || item.status === 'running') {
+      item.status = 'cancelled';
+      item.finishedAt = Date.now();
+      runningControllers.get(item)?.abort();
+    }
+  }
+}
+
+/**
+ * Puts failed or cancelled items back in the queue. All retryable items are
+ * queued again when no ids are given.
+ */
+export function retryBatchItems(batch: Batch, itemIds?: string[]) {
+  for (const item of batch.items) {
+    if (itemIds && !itemIds.includes(item.id)) continue;
+    if (item.status === 'failed' || item.status === 'cancelled') {
+      item.status = 'queued';
+      item.error = undefined;
+      item.errorCode = undefined;
+      item.result = undefined;
+      item.startedAt = undefined;
+      item.finishedAt = undefined;
+    }
+  }
+  pump(batch);
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// Long conversations grow every request; the oldest turns are dropped beyond this
+export const MAX_CHAT_MESSAGES = 40;
+
+// The extraction is context, not the subject; very long documents are cut to keep the prompt small
+const MAX_CONTEXT_CHARS = 12000;
+
+export const chatMessageSchema = z.object({
+  role: z.enum(['user', 'model']),
+  text: z.string(),
+  /** Model that wrote an answer; the selected model can change during a session. */
+  model: z.string().optional(),
+});
+
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+
+/**
+ * System prompt for follow-up questions. The first extraction is included so
+ * the model doesn't have to read the whole image again for every question.
+ */
+export function buildChatSystemPrompt(extractedText: string): string {
+  const context = extractedText.length > MAX_CONTEXT_CHARS
+    ? `${extractedText.slice(0, MAX_CONTEXT_CHARS)}\n[...]`
+    : extractedText;
+
+  return [
+    'You answer questions about the attached image.',
+    'Text extracted from the image earlier is given below. Use it, but check the image when the question needs more than the text, and correct the text if the image shows it is wrong.',
+    'Answer briefly and say so when the image does not show the answer.',
+    '',
+    'Extracted text:',
+    '"""',
+    context || '(no text was extracted)',
+    '"""',
+  ].join('\n');
+}
+
+/**
+ * Keeps the most recent messages, starting with a question so the turns
+ * still alternate after the cut.
+ */
+export function trimChatHistory(messages: ChatMessage[]): ChatMessage[] {
+  if (messages.length <= MAX_CHAT_MESSAGES) return messages;
+  const recent = messages.slice(-MAX_CHAT_MESSAGES);
+  const start = recent.findIndex(message => message.role === 'user');
+  return start > 0 ? recent.slice(start) : recent;
+}
@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { canDiffWords, diffWords } from './diff';
+
+// Words fewer samples than this agree on are flagged for review
+export const LOW_AGREEMENT = 0.6;
+
+export const MAX_CONFIDENCE_SAMPLES = 5;
+
+export const confidenceLevelSchema = z.enum(['high', 'medium', 'low']);
+
+export const confidenceEstimateSchema = z.object({
+  level: confidenceLevelSchema,
+  score: z.number().describe('Mean share of samples that agree with each word, from 0 to 1'),
+  samples: z.number().describe('Number of extra sampled generations compared'),
+  lines: z.array(z.number()).describe('Agreement per line of the extracted text'),
+  lowAgreementSpans: z.array(z.object({
+    start: z.number(),
+    end: z.number(),
+    agreement: z.number(),
+  })).describe('Character ranges of extracted text that few samples agree on'),
+});
+
+export type ConfidenceLevel = z.infer<typeof confidenceLevelSchema>;
+export type ConfidenceEstimate = z.infer<typeof confidenceEstimateSchema>;
+export type TextSpan = ConfidenceEstimate['lowAgreementSpans'][number];
+
+interface Word {
+  start: number;
+  end: number;
+  line: number;
+}
+
+function wordsOf(text: string): Word[] {
+  const words: Word[] = [];
+  let line = 0;
+  let lineStart = 0;
+  for (const match of text.matchAll(/\S+/g)) {
+    for (let i = text.indexOf('\n', lineStart); i !== -1 && i < match.index; i = text.indexOf('\n', i + 1)) {
+      line++;
+      lineStart = i + 1;
+    }
+    words.push({ start: match.index, end: match.index + match[0].length, line });
+  }
+  return words;
+}
+
+function wordCount(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+function agreedInDiff(text: string, sample: string): boolean[] {
+  const agreed: boolean[] = [];
+  for (const part of diffWords(text, sample)) {
+    if (part.op === 'added') continue;
+    const count = wordCount(part.text);
+    for (let i = 0; i < count; i++) agreed.push(part.op === 'equal');
+  }
+  return agreed;
+}
+
+/**
+ * Which words of `text` also appear, in order, in the sample. Texts too long
+ * for one word diff are first aligned on identical lines, and only the lines
+ * in between are diffed word by word.
+ */
+function agreedWords(text: string, sample: string): boolean[] {
+  if (text === sample) return new Array<boolean>(wordCount(text)).fill(true);
+  if (canDiffWords(text, sample)) return agreedInDiff(text, sample);
+
+  const key = (line: string) => line.trim().replace(/\s+/g, ' ');
+  const a = text.split('\n');
+  const b = sample.split('\n');
+  const keyA = a.map(key);
+  const keyB = b.map(key);
+
+  // lengths[i][j] = number of identical lines shared by a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = keyA[i] === keyB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let agreed: boolean[] = [];
+  let gap = { a: 0, b: 0 };
+  const closeGap = (i: number, j: number) => {
+    agreed = agreed.concat(agreedInDiff(a.slice(gap.a, i).join('\n'), b.slice(gap.b, j).join('\n')));
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (keyA[i] === keyB[j]) {
+      closeGap(i, j);
+      agreed = agreed.concat(new Array<boolean>(wordCount(a[i])).fill(true));
+      gap = { a: ++i, b: ++j };
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  closeGap(a.length, b.length);
+  return agreed;
+}
+
+export function confidenceLevel(score: number): ConfidenceLevel {
+  return score >= 0.9 ? 'high' : score >= 0.7 ? 'medium' : 'low';
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Self-consistency estimate: every word of the main answer is scored by the
+ * share of independently sampled answers that contain it at the same place.
+ * Words the model is sure about come back the same each time; misread words
+ * tend to change between samples.
+ */
+export function estimateConfidence(text: string, samples: string[]): ConfidenceEstimate {
+  const words = wordsOf(text);
+  const votes = new Array<number>(words.length).fill(0);
+  for (const sample of samples) {
+    agreedWords(text, sample).forEach((agreed, i) => {
+      if (agreed) votes[i]++;
+    });
+  }
+  const agreement = votes.map(count => (samples.length ? count / samples.length : 1));
+
+  const lineCount = text.split('\n').length;
+  const lineTotals = Array.from({ length: lineCount }, () => ({ sum: 0, words: 0 }));
+  words.forEach((word, i) => {
+    lineTotals[word.line].sum += agreement[i];
+    lineTotals[word.line].words++;
+  });
+
+  // Neighbouring low-agreement words on the same line form one span
+  const lowAgreementSpans: TextSpan[] = [];
+  let run: { first: number; last: number } | null = null;
+  const closeRun = () => {
+    if (!run) return;
+    const scores = agreement.slice(run.first, run.last + 1);
+    lowAgreementSpans.push({
+      start: words[run.first].start,
+      end: words[run.last].end,
+      agreement: round(scores.reduce((a, b) => a + b, 0) / scores.length),
+    });
+    run = null;
+  };
+  words.forEach((word, i) => {
+    if (agreement[i] >= LOW_AGREEMENT) {
+      closeRun();
+    } else if (run && words[run.last].line === word.line) {
+      run.last = i;
+    } else {
+      closeRun();
+      run = { first: i, last: i };
+    }
+  });
+  closeRun();
+
+  const score = words.length ? agreement.reduce((a, b) => a + b, 0) / words.length : 1;
+
+  return {
+    level: confidenceLevel(score),
+    score: round(score),
+    samples: samples.length,
+    lines: lineTotals.map(line => round(line.words ? line.sum / line.words : 1)),
+    lowAgreementSpans,
+  };
+}
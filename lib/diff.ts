@@ -0,0 +1,88 @@
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Beyond this many word pairs the LCS table gets too large for the browser
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Words with their trailing whitespace, so joining the parts restores the text
+function tokenize(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) ?? [];
+}
+
+function pushPart(parts: DiffPart[], op: DiffOp, text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.op === op) {
+    last.text += text;
+  } else {
+    parts.push({ op, text });
+  }
+}
+
+/**
+ * Whether the two texts are short enough for a word-level diff.
+ */
+export function canDiffWords(base: string, next: string): boolean {
+  return tokenize(base).length * tokenize(next).length <= MAX_DIFF_CELLS;
+}
+
+/**
+ * Word-level diff of `next` against `base`. Words are compared ignoring
+ * surrounding whitespace; very long texts fall back to a single replacement.
+ */
+export function diffWords(base: string, next: string): DiffPart[] {
+  const a = tokenize(base);
+  const b = tokenize(next);
+  const parts: DiffPart[] = [];
+
+  if (!canDiffWords(base, next)) {
+    if (base) parts.push({ op: 'removed', text: base });
+    if (next) parts.push({ op: 'added', text: next });
+    return parts;
+  }
+
+  const keyA = a.map(token => token.trim());
+  const keyB = b.map(token => token.trim());
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = keyA[i] === keyB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (keyA[i] === keyB[j]) {
+      pushPart(parts, 'equal', b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+}
+
+/**
+ * Share of words the two texts have in common, from 0 to 1.
+ */
+export function diffSimilarity(parts: DiffPart[]): number {
+  const count = (op: DiffOp) =>
+    parts.filter(part => part.op === op).reduce((sum, part) => sum + tokenize(part.text).length, 0);
+  const equal = count('equal');
+  const total = equal * 2 + count('added') + count('removed');
+  return total === 0 ? 1 : (equal * 2) / total;
+}
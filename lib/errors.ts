@@ -0,0 +1,122 @@
+import type { StatusName } from 'genkit';
+
+export const EXTRACTION_ERROR_CODES = [
+  'OLLAMA_UNREACHABLE',
+  'MODEL_NOT_FOUND',
+  'IMAGE_TOO_LARGE',
+  'UNSUPPORTED_FORMAT',
+  'TIMEOUT',
+  'OUT_OF_MEMORY',
+  'MALFORMED_OUTPUT',
+] as const;
+
+export type ExtractionErrorCode = typeof EXTRACTION_ERROR_CODES[number];
+
+interface ExtractionErrorDefinition {
+  /** Genkit status name sent to the client. */
+  status: StatusName;
+  /** HTTP status of non-streaming responses; more specific than the status name's default. */
+  httpStatus: number;
+  title: string;
+  hint: string;
+}
+
+export const EXTRACTION_ERRORS: Record<ExtractionErrorCode, ExtractionErrorDefinition> = {
+  OLLAMA_UNREACHABLE: {
+    status: 'UNAVAILABLE',
+    httpStatus: 503,
+    title: 'Ollama is not reachable',
+    hint: 'Start Ollama with `ollama serve` (or open the Ollama app) and check that OLLAMA_SERVER_ADDRESS points to it.',
+  },
+  MODEL_NOT_FOUND: {
+    status: 'NOT_FOUND',
+    httpStatus: 404,
+    title: 'Model not installed',
+    hint: 'Install it with `ollama pull <model>` and refresh the model list, or pick a model that is already installed.',
+  },
+  IMAGE_TOO_LARGE: {
+    status: 'INVALID_ARGUMENT',
+    httpStatus: 413,
+    title: 'File too large',
+    hint: 'Images must be under 10MB and PDFs under 25MB. Compress or downscale the file, or crop it to the part you need.',
+  },
+  UNSUPPORTED_FORMAT: {
+    status: 'INVALID_ARGUMENT',
+    httpStatus: 415,
+    title: 'Unsupported or damaged file',
+    hint: 'Use PNG, JPEG, WebP, GIF, BMP, TIFF, HEIC, AVIF or PDF. If the format is right, the file may be corrupt; export or scan it again.',
+  },
+  TIMEOUT: {
+    status: 'DEADLINE_EXCEEDED',
+    httpStatus: 504,
+    title: 'The model took too long',
+    hint: 'The first request after starting Ollama also loads the model, so try again. A smaller model, tiling or downscaling also help.',
+  },
+  OUT_OF_MEMORY: {
+    status: 'RESOURCE_EXHAUSTED',
+    httpStatus: 507,
+    title: 'Not enough memory for this model',
+    hint: 'Unload other models (`ollama ps`, then `ollama stop <model>`), choose a smaller variant of the model, or downscale the image.',
+  },
+  MALFORMED_OUTPUT: {
+    status: 'INTERNAL',
+    httpStatus: 502,
+    title: 'The model returned invalid output',
+    hint: 'The answer did not match the requested schema even after repair attempts. Try a larger model, a simpler schema, or plain text output.',
+  },
+};
+
+export interface ExtractionErrorInfo {
+  code?: ExtractionErrorCode;
+  message: string;
+}
+
+function isErrorCode(value: unknown): value is ExtractionErrorCode {
+  return EXTRACTION_ERROR_CODES.includes(value as ExtractionErrorCode);
+}
+
+function readCode(details: unknown): ExtractionErrorCode | undefined {
+  if (typeof details === 'string') {
+    try {
+      details = JSON.parse(details);
+    } catch {
+      return undefined;
+    }
+  }
+  const code = (details as { code?: unknown } | null | undefined)?.code;
+  return isErrorCode(code) ? code : undefined;
+}
+
+/**
+ * Recovers the error code and message from a failed flow call.
+ *
+ * Handles errors thrown in-process (Genkit errors with a `detail`), failed
+ * `runFlow` requests ("Server returned: 404: {...}") and failed `streamFlow`
+ * requests ("NOT_FOUND: message" followed by the details on the next line).
+ */
+export function parseExtractionError(error: unknown, fallback = 'Failed to extract text'): ExtractionErrorInfo {
+  if (!(error instanceof Error)) {
+    return { message: fallback };
+  }
+
+  const { detail, originalMessage } = error as Error & { detail?: unknown; originalMessage?: string };
+  if (originalMessage !== undefined) {
+    return { code: readCode(detail), message: originalMessage };
+  }
+
+  const response = error.message.match(/^Server returned: \d+: ([\s\S]*)$/);
+  if (response) {
+    try {
+      const { message, details } = JSON.parse(response[1]).error ?? {};
+      return { code: readCode(details), message: message || fallback };
+    } catch {
+      return { message: response[1] || fallback };
+    }
+  }
+
+  const [firstLine, ...details] = error.message.split('\n');
+  return {
+    code: readCode(details.join('\n')),
+    message: firstLine.replace(/^[A-Z_]+: /, '') || fallback,
+  };
+}
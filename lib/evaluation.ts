@@ -0,0 +1,129 @@
+import { z } from 'zod';
+
+// One labeled sample; `image` is resolved relative to the dataset file
+export const evalCaseSchema = z.object({
+  id: z.string(),
+  image: z.string().describe('Path to the image or PDF, relative to the dataset file'),
+  text: z.string().optional().describe('Ground-truth text for character and word error rate'),
+  fields: z.record(z.unknown()).optional().describe('Ground-truth values for field accuracy'),
+  schemaId: z.string().optional().describe('Built-in extraction schema used when fields are checked'),
+}).refine(c => c.text !== undefined || c.fields !== undefined, {
+  message: 'Each case needs ground-truth text, fields or both',
+}).refine(c => c.fields === undefined || c.schemaId !== undefined, {
+  message: 'Cases with fields need a schemaId, otherwise the image is extracted as plain text',
+  path: ['schemaId'],
+});
+
+export const evalDatasetSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  cases: z.array(evalCaseSchema).min(1),
+});
+
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+export type EvalDataset = z.infer<typeof evalDatasetSchema>;
+
+export interface ErrorRate {
+  /** Edits divided by reference length; can exceed 1 when the output is much longer. */
+  rate: number;
+  edits: number;
+  referenceLength: number;
+}
+
+export interface FieldAccuracy {
+  accuracy: number;
+  correct: number;
+  total: number;
+  mismatches: { path: string; expected: unknown; actual: unknown }[];
+}
+
+// Whitespace and line breaks differ between models without changing what was read
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function editDistance<T>(a: T[], b: T[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function errorRate<T>(reference: T[], hypothesis: T[]): ErrorRate {
+  const edits = editDistance(reference, hypothesis);
+  return {
+    rate: reference.length === 0 ? (hypothesis.length === 0 ? 0 : 1) : edits / reference.length,
+    edits,
+    referenceLength: reference.length,
+  };
+}
+
+/**
+ * Character error rate (CER) after collapsing whitespace.
+ */
+export function characterErrorRate(reference: string, hypothesis: string): ErrorRate {
+  return errorRate([...normalizeText(reference)], [...normalizeText(hypothesis)]);
+}
+
+/**
+ * Word error rate (WER) over whitespace-separated words.
+ */
+export function wordErrorRate(reference: string, hypothesis: string): ErrorRate {
+  const words = (text: string) => normalizeText(text).split(' ').filter(Boolean);
+  return errorRate(words(reference), words(hypothesis));
+}
+
+// Nested objects and arrays become dotted paths, e.g. lineItems.0.total
+function flattenFields(value: unknown, prefix = ''): Map<string, unknown> {
+  const fields = new Map<string, unknown>();
+  if (value !== null && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      for (const [path, leaf] of flattenFields(child, prefix ? `${prefix}.${key}` : key)) {
+        fields.set(path, leaf);
+      }
+    }
+  } else {
+    fields.set(prefix, value);
+  }
+  return fields;
+}
+
+// Numbers compare by value ("1,200.00" equals 1200); strings ignore case and spacing
+function sameValue(expected: unknown, actual: unknown): boolean {
+  const asNumber = (value: unknown) =>
+    typeof value === 'number' ? value : typeof value === 'string' ? Number(value.replace(/[,\s]/g, '')) : NaN;
+  if (typeof expected === 'number' || typeof actual === 'number') {
+    return asNumber(expected) === asNumber(actual);
+  }
+  const asText = (value: unknown) => normalizeText(String(value ?? '')).toLowerCase();
+  return asText(expected) === asText(actual);
+}
+
+/**
+ * Share of ground-truth fields the output reproduces. Extra output fields
+ * are ignored; missing ones count as wrong.
+ */
+export function fieldAccuracy(expected: unknown, actual: unknown): FieldAccuracy {
+  const expectedFields = flattenFields(expected);
+  const actualFields = flattenFields(actual ?? {});
+  const mismatches: FieldAccuracy['mismatches'] = [];
+
+  for (const [path, value] of expectedFields) {
+    if (!sameValue(value, actualFields.get(path))) {
+      mismatches.push({ path, expected: value, actual: actualFields.get(path) });
+    }
+  }
+
+  const total = expectedFields.size;
+  const correct = total - mismatches.length;
+  return { accuracy: total === 0 ? 1 : correct / total, correct, total, mismatches };
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+// Low enough for faithful transcription, high enough to avoid repetition loops
+export const DEFAULT_TEMPERATURE = 0.3;
+
+// Ollama's duration syntax: seconds, or a number with a unit; negative keeps the model loaded
+const KEEP_ALIVE_PATTERN = /^-?\d+(\.\d+)?(ms|s|m|h)?$/;
+
+export const generationOptionsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional().describe(`Sampling temperature, defaults to ${DEFAULT_TEMPERATURE}`),
+  topP: z.number().min(0).max(1).optional().describe('Nucleus sampling: only tokens within this probability mass are considered'),
+  topK: z.number().int().min(1).optional().describe('Only the K most likely tokens are considered'),
+  seed: z.number().int().optional().describe('Fixed random seed for reproducible answers'),
+  numCtx: z.number().int().min(256).optional().describe('Context window in tokens'),
+  numPredict: z.number().int().min(-1).optional().describe('Maximum tokens to generate; -1 for no limit'),
+  repeatPenalty: z.number().min(0).max(2).optional().describe('Penalty for repeated tokens, 1 turns it off'),
+  keepAlive: z.string().regex(KEEP_ALIVE_PATTERN, 'Use a duration such as 30s, 10m or 1h, or -1 to keep the model loaded')
+    .optional().describe('How long Ollama keeps the model loaded after the request'),
+});
+
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
+
+export interface GenerationProfile {
+  name: string;
+  options: GenerationOptions;
+}
+
+// Offered for every model, next to the profiles saved for it
+export const BUILT_IN_PROFILES: GenerationProfile[] = [
+  { name: 'Deterministic OCR', options: { temperature: 0, topK: 1, seed: 42 } },
+  { name: 'Creative description', options: { temperature: 0.9, topP: 0.95, repeatPenalty: 1.1 } },
+];
+
+/**
+ * Genkit model config for genkitx-ollama. Keys Genkit doesn't know are passed
+ * to Ollama's `options` as they are, so those use Ollama's own names.
+ * Keep-alive is not a model option; see `keepModelLoaded`.
+ */
+export function toModelConfig(options: GenerationOptions = {}) {
+  return {
+    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    topP: options.topP,
+    topK: options.topK,
+    maxOutputTokens: options.numPredict,
+    seed: options.seed,
+    num_ctx: options.numCtx,
+    repeat_penalty: options.repeatPenalty,
+  };
+}
+
+// Options that differ from the model defaults, e.g. for metadata
+export function describeGenerationOptions(options: GenerationOptions): string {
+  return Object.entries(options)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key} ${value}`)
+    .join(', ');
+}
@@ -0,0 +1,214 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { GenkitError } from 'genkit';
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { extractTextFromImage, imageExtractionInputSchema, DEFAULT_EXTRACTION_PROMPT } from './flows';
+import { EXTRACTION_ERRORS, parseExtractionError, type ExtractionErrorCode } from '../errors';
+
+// Public, versioned REST API for other services: plain uploads instead of the Genkit envelope
+
+type ExtractionInput = z.infer<typeof imageExtractionInputSchema>;
+
+/** Every flow option except the image, which is uploaded instead. */
+export const EXTRACTION_OPTION_FIELDS = Object.keys(imageExtractionInputSchema.shape)
+  .filter(field => field !== 'imageBase64') as (keyof Omit<ExtractionInput, 'imageBase64'>)[];
+
+// Options that can't be a single form field or query parameter are sent as JSON
+export const JSON_OPTION_FIELDS: readonly string[] = ['jsonSchema', 'preprocessing', 'generation'];
+const NUMBER_OPTION_FIELDS: readonly string[] = ['confidenceSamples'];
+
+export const IMAGE_FIELD = 'image';
+
+export interface ApiErrorBody {
+  error: {
+    /** Genkit status name, e.g. INVALID_ARGUMENT. */
+    status: string;
+    /** Extraction error code, when the failure has a known cause. */
+    code?: ExtractionErrorCode;
+    message: string;
+    hint?: string;
+  };
+}
+
+export function toApiError(error: unknown): { body: ApiErrorBody; httpStatus: number } {
+  const { code, message } = parseExtractionError(error, 'Internal error');
+  const genkitError = error instanceof GenkitError ? error : undefined;
+  const httpStatus = genkitError?.code ?? 500;
+  if (httpStatus >= 500) {
+    console.error('API extraction failed:', error);
+  }
+  return {
+    body: {
+      error: {
+        status: genkitError?.status ?? 'INTERNAL',
+        code,
+        // Schema validation errors go on to echo the request, image included, and the whole schema
+        message: genkitError || code ? message.split('\n\nProvided data:')[0] : 'Internal error',
+        hint: code && EXTRACTION_ERRORS[code].hint,
+      },
+    },
+    httpStatus,
+  };
+}
+
+function errorResponse(error: unknown): NextResponse {
+  const { body, httpStatus } = toApiError(error);
+  const headers: HeadersInit = httpStatus === 401 ? { 'WWW-Authenticate': 'Bearer' } : {};
+  return NextResponse.json(body, { status: httpStatus, headers });
+}
+
+function invalidRequest(message: string): GenkitError {
+  return new GenkitError({ status: 'INVALID_ARGUMENT', message });
+}
+
+// Comma-separated in API_KEYS; without any keys the API is as open as the app's own routes
+function configuredApiKeys(): string[] {
+  return (process.env.API_KEYS ?? '').split(',').map(key => key.trim()).filter(Boolean);
+}
+
+// Hashing first gives both sides the same length, which timingSafeEqual needs
+function sameKey(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Accepts a key from `Authorization: Bearer <key>` or `X-API-Key`.
+ */
+export function requireApiKey(request: NextRequest): void {
+  const keys = configuredApiKeys();
+  if (keys.length === 0) return;
+
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const key = bearer ?? request.headers.get('x-api-key');
+  if (!key) {
+    throw new GenkitError({ status: 'UNAUTHENTICATED', message: 'Missing API key' });
+  }
+  if (!keys.some(configured => sameKey(configured, key.trim()))) {
+    throw new GenkitError({ status: 'UNAUTHENTICATED', message: 'Invalid API key' });
+  }
+}
+
+function readOptions(values: [string, string][]): Partial<ExtractionInput> {
+  const options: Record<string, unknown> = {};
+  for (const [field, value] of values) {
+    if (!(EXTRACTION_OPTION_FIELDS as string[]).includes(field) || value === '') continue;
+    if (JSON_OPTION_FIELDS.includes(field)) {
+      try {
+        options[field] = JSON.parse(value);
+      } catch {
+        throw invalidRequest(`${field} must be JSON`);
+      }
+    } else if (NUMBER_OPTION_FIELDS.includes(field)) {
+      options[field] = Number(value);
+    } else {
+      options[field] = value;
+    }
+  }
+  return options as Partial<ExtractionInput>;
+}
+
+/**
+ * Reads the image and options from a multipart upload (an `image` file plus
+ * option fields) or from a raw image body with the options in the query
+ * string. Form fields take precedence over query parameters. The flow
+ * validates the options, but a direct call skips the schema defaults.
+ */
+export async function readExtractionRequest(request: NextRequest): Promise<ExtractionInput> {
+  const contentType = request.headers.get('content-type')?.toLowerCase() ?? '';
+  const query = Array.from(request.nextUrl.searchParams.entries());
+  let image: Buffer;
+  let fields: [string, string][] = [];
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const form = await request.formData().catch(() => {
+      throw invalidRequest('Malformed multipart body');
+    });
+    const file = form.get(IMAGE_FIELD);
+    if (!(file instanceof Blob)) {
+      throw invalidRequest(`Send the image as a file field named "${IMAGE_FIELD}"`);
+    }
+    image = Buffer.from(await file.arrayBuffer());
+    fields = Array.from(form.entries()).filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+  } else if (contentType.startsWith('image/') || contentType.startsWith('application/octet-stream')) {
+    image = Buffer.from(await request.arrayBuffer());
+  } else {
+    throw invalidRequest('Send the image as multipart/form-data or as a raw image/* or application/octet-stream body');
+  }
+
+  if (image.length === 0) {
+    throw invalidRequest('The request has no image');
+  }
+  const options = readOptions([...query, ...fields]);
+  if (!options.model) {
+    throw invalidRequest('model is required, e.g. model=gemma3:4b');
+  }
+  return {
+    ...options,
+    model: options.model,
+    prompt: options.prompt || DEFAULT_EXTRACTION_PROMPT,
+    outputFormat: options.outputFormat ?? 'text',
+    imageBase64: image.toString('base64'),
+  };
+}
+
+function wantsEventStream(request: NextRequest): boolean {
+  const stream = request.nextUrl.searchParams.get('stream');
+  if (stream !== null) return stream !== 'false' && stream !== '0';
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Runs the extraction as Server-Sent Events: `chunk` events with the text as
+ * it is generated, then one `result` or `error` event. Closing the connection
+ * cancels the request to Ollama.
+ */
+function streamExtraction(input: ExtractionInput, request: NextRequest): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      try {
+        const result = await extractTextFromImage(input, {
+          onChunk: (text: string) => text && send('chunk', { text }),
+          abortSignal: abort.signal,
+        });
+        send('result', result);
+      } catch (error) {
+        send('error', toApiError(error).body);
+      }
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+export async function handleExtractRequest(request: NextRequest): Promise<Response> {
+  try {
+    requireApiKey(request);
+    const input = await readExtractionRequest(request);
+    if (wantsEventStream(request)) {
+      return streamExtraction(input, request);
+    }
+    const result = await extractTextFromImage(input, { abortSignal: request.signal });
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
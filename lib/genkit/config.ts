@@ -1,8 +1,12 @@
 import { genkit } from 'genkit';
 import { ollama } from 'genkitx-ollama';
 
+// Shared prompt templates as dotprompt files; Genkit registers each one as a prompt
+export const PROMPT_DIR = process.env.PROMPT_DIR || './prompts';
+
 // Initialize Genkit with Ollama plugin using new syntax
 export const ai = genkit({
+  promptDir: PROMPT_DIR,
   plugins: [
     ollama({
       serverAddress: process.env.OLLAMA_SERVER_ADDRESS || 'http://127.0.0.1:11434',
@@ -21,11 +25,22 @@ const KNOWN_VISION_MODELS: Record<string, { name: string; description: string }>
   'gemma': { name: 'Gemma', description: 'Google\'s multimodal model' },
   'gemma2': { name: 'Gemma 2', description: 'Google\'s Gemma 2 model' },
   'qwen2-vl': { name: 'Qwen2 VL', description: 'Qwen vision-language model' },
+  'qwen2.5vl': { name: 'Qwen2.5 VL', description: 'Qwen vision-language model, strong on documents and tables' },
   'minicpm-v': { name: 'MiniCPM-V', description: 'Efficient vision model' },
   'llama3.2-vision': { name: 'Llama 3.2 Vision', description: 'Meta\'s vision model' },
   'moondream': { name: 'Moondream', description: 'Lightweight vision model' },
 };
 
+// Vision models offered for one-click install when they are missing
+export const RECOMMENDED_VISION_MODELS: { id: string; downloadSize: string }[] = [
+  { id: 'gemma3:4b', downloadSize: '3.3 GB' },
+  { id: 'gemma3:12b', downloadSize: '8.1 GB' },
+  { id: 'qwen2.5vl:7b', downloadSize: '6.0 GB' },
+  { id: 'llava:7b', downloadSize: '4.7 GB' },
+  { id: 'llama3.2-vision:11b', downloadSize: '7.8 GB' },
+  { id: 'moondream:1.8b', downloadSize: '1.7 GB' },
+];
+
 // Helper to get friendly model info
 export function getModelDisplayInfo(modelId: string): { name: string; description: string } {
   // Check for exact match
@@ -0,0 +1,67 @@
+import { GenkitError } from 'genkit';
+import { EXTRACTION_ERRORS, type ExtractionErrorCode } from '../errors';
+import { ImageFormatError } from '../image';
+import { PdfFormatError } from '../pdf';
+
+/**
+ * A failure with a known cause and recovery hint. The code travels to the
+ * client in the error details; see parseExtractionError in lib/errors.ts.
+ */
+export class ExtractionError extends GenkitError {
+  constructor(public readonly errorCode: ExtractionErrorCode, message: string, model?: string) {
+    const { status, httpStatus } = EXTRACTION_ERRORS[errorCode];
+    super({ status, message, detail: { code: errorCode, model } });
+    this.name = 'ExtractionError';
+    // appRoute answers non-streaming requests with this code
+    this.code = httpStatus;
+  }
+}
+
+// Failures that will repeat for every page, tile or region of the same request
+const REQUEST_WIDE_CODES: ExtractionErrorCode[] = ['OLLAMA_UNREACHABLE', 'MODEL_NOT_FOUND', 'OUT_OF_MEMORY'];
+
+export function isRequestWideError(error: unknown): boolean {
+  return error instanceof ExtractionError && REQUEST_WIDE_CODES.includes(error.errorCode);
+}
+
+// Messages, names and system error codes of the error and its causes
+function describeErrorChain(error: unknown): string {
+  const parts: string[] = [];
+  for (let current = error; current instanceof Error && parts.length < 15; current = current.cause) {
+    parts.push(current.name, current.message, String((current as { code?: unknown }).code ?? ''));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Maps errors from Ollama, fetch and image decoding to an ExtractionError.
+ * Genkit errors and aborts pass through; anything else becomes an INTERNAL
+ * error that keeps its message.
+ */
+export function toExtractionError(error: unknown, model: string): unknown {
+  if (error instanceof GenkitError || (error instanceof Error && error.name === 'AbortError')) {
+    return error;
+  }
+  if (error instanceof ImageFormatError || error instanceof PdfFormatError) {
+    return new ExtractionError('UNSUPPORTED_FORMAT', error.message, model);
+  }
+
+  const description = describeErrorChain(error);
+  if (/TimeoutError|UND_ERR_(HEADERS|BODY)_TIMEOUT|ETIMEDOUT|timed out/i.test(description)) {
+    return new ExtractionError('TIMEOUT', `${model} did not respond in time`, model);
+  }
+  if (/ECONNREFUSED|ENOTFOUND|EHOSTUNREACH|ECONNRESET|fetch failed|Ollama server is running/i.test(description)) {
+    return new ExtractionError('OLLAMA_UNREACHABLE', 'Cannot connect to the Ollama server', model);
+  }
+  if (/model .*not found|try pulling it/i.test(description)) {
+    return new ExtractionError('MODEL_NOT_FOUND', `Model ${model} is not installed in Ollama`, model);
+  }
+  if (/out of memory|more system memory|insufficient memory|cudaMalloc failed/i.test(description)) {
+    return new ExtractionError('OUT_OF_MEMORY', error instanceof Error ? error.message : 'Model ran out of memory', model);
+  }
+
+  return new GenkitError({
+    status: 'INTERNAL',
+    message: error instanceof Error ? error.message : 'Failed to extract text from image',
+  });
+}
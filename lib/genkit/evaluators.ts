@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { ai } from './config';
+import { characterErrorRate, fieldAccuracy, wordErrorRate, type ErrorRate } from '../evaluation';
+
+// Data points carry the flow output in `output` and the ground truth in `reference`:
+// text for the error rates, an object of expected fields for field accuracy
+
+const errorRateConfigSchema = z.object({
+  maxRate: z.number().min(0).default(0.1).describe('Highest error rate that still passes'),
+});
+
+function errorRateScore(result: ErrorRate, unit: string, maxRate: number) {
+  return {
+    score: Number(result.rate.toFixed(4)),
+    status: result.rate <= maxRate ? 'PASS' as const : 'FAIL' as const,
+    details: {
+      reasoning: `${result.edits} edits over ${result.referenceLength} reference ${unit}`,
+      edits: result.edits,
+      referenceLength: result.referenceLength,
+    },
+  };
+}
+
+// The image flow returns an object; datasets exported from traces may hold just the text
+function outputText(output: unknown): string {
+  if (typeof output === 'string') return output;
+  if (output && typeof output === 'object' && 'extractedText' in output) {
+    return String((output as { extractedText: unknown }).extractedText ?? '');
+  }
+  return '';
+}
+
+function missingReference(testCaseId: string, kind: string) {
+  return { testCaseId, evaluation: { error: `No ${kind} reference for this case`, status: 'UNKNOWN' as const } };
+}
+
+export const characterErrorRateEvaluator = ai.defineEvaluator(
+  {
+    name: 'ocr/characterErrorRate',
+    displayName: 'Character error rate',
+    definition: 'Character-level edit distance between extracted and ground-truth text, divided by the ground-truth length. Lower is better.',
+    configSchema: errorRateConfigSchema,
+  },
+  async (dataPoint, options) => {
+    if (typeof dataPoint.reference !== 'string') return missingReference(dataPoint.testCaseId, 'text');
+    const result = characterErrorRate(dataPoint.reference, outputText(dataPoint.output));
+    return {
+      testCaseId: dataPoint.testCaseId,
+      evaluation: errorRateScore(result, 'characters', options?.maxRate ?? 0.1),
+    };
+  }
+);
+
+export const wordErrorRateEvaluator = ai.defineEvaluator(
+  {
+    name: 'ocr/wordErrorRate',
+    displayName: 'Word error rate',
+    definition: 'Word-level edit distance between extracted and ground-truth text, divided by the number of ground-truth words. Lower is better.',
+    configSchema: errorRateConfigSchema,
+  },
+  async (dataPoint, options) => {
+    if (typeof dataPoint.reference !== 'string') return missingReference(dataPoint.testCaseId, 'text');
+    const result = wordErrorRate(dataPoint.reference, outputText(dataPoint.output));
+    return {
+      testCaseId: dataPoint.testCaseId,
+      evaluation: errorRateScore(result, 'words', options?.maxRate ?? 0.1),
+    };
+  }
+);
+
+export const fieldAccuracyEvaluator = ai.defineEvaluator(
+  {
+    name: 'ocr/fieldAccuracy',
+    displayName: 'Field accuracy',
+    definition: 'Share of ground-truth fields whose extracted value matches, comparing numbers by value and text ignoring case and spacing. Higher is better.',
+    configSchema: z.object({
+      minAccuracy: z.number().min(0).max(1).default(0.9).describe('Lowest accuracy that still passes'),
+    }),
+  },
+  async (dataPoint, options) => {
+    if (!dataPoint.reference || typeof dataPoint.reference !== 'object') {
+      return missingReference(dataPoint.testCaseId, 'fields');
+    }
+    const output = dataPoint.output as { structuredData?: unknown } | undefined;
+    const result = fieldAccuracy(dataPoint.reference, output?.structuredData ?? output);
+    return {
+      testCaseId: dataPoint.testCaseId,
+      evaluation: {
+        score: Number(result.accuracy.toFixed(4)),
+        status: result.accuracy >= (options?.minAccuracy ?? 0.9) ? 'PASS' : 'FAIL',
+        details: {
+          reasoning: `${result.correct} of ${result.total} fields match`,
+          mismatches: result.mismatches,
+        },
+      },
+    };
+  }
+);
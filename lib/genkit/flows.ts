@@ -1,26 +1,141 @@
 import { z } from 'zod';
 import { ai } from './config';
 import { ollama } from 'genkitx-ollama';
+import { parseSchema } from 'genkit/schema';
+import { GenkitError, type MediaPart } from 'genkit';
+import { getExtractionSchema } from './schemas';
+import { abortOnSignal, keepModelLoaded } from './middleware';
+import { ExtractionError, toExtractionError, isRequestWideError } from './errors';
+// Registers the OCR evaluators alongside the flows (e.g. for the Developer UI)
+import './evaluators';
+import { normalizeImage, applyPreprocessing } from '../image';
+import {
+  preprocessingStepSchema,
+  describePreprocessingStep,
+  getModelInputResolution,
+  type PreprocessingStep,
+} from '../preprocessing';
+import { isPdf, renderPdfPages, MAX_PDF_PAGES } from '../pdf';
+import { combineSectionTexts, summarizeText, pageTitle, type TextSection } from '../sections';
+import { splitIntoTiles, stitchTileTexts } from '../tiling';
+import { regionSchema } from '../regions';
+import {
+  confidenceEstimateSchema,
+  confidenceLevelSchema,
+  estimateConfidence,
+  MAX_CONFIDENCE_SAMPLES,
+  type ConfidenceEstimate,
+} from '../confidence';
+import {
+  generationOptionsSchema,
+  toModelConfig,
+  describeGenerationOptions,
+  type GenerationOptions,
+} from '../generation';
+import { MARKDOWN_INSTRUCTIONS, normalizeMarkdown } from '../markdown';
+import {
+  languageHintIdSchema,
+  detectedLanguageSchema,
+  getLanguageHint,
+  buildLanguageInstructions,
+  detectLanguage,
+} from '../language';
+import { mapWithConcurrency } from '../utils';
+import { parseExtractionError, EXTRACTION_ERROR_CODES } from '../errors';
+
+export const DEFAULT_EXTRACTION_PROMPT = 'Extract all text from this image. Include any handwritten text, printed text, or text in UI elements. Format the output clearly.';
 
 // Input validation schema
 export const imageExtractionInputSchema = z.object({
   imageBase64: z.string().describe('Base64 encoded image data'),
   model: z.string().describe('Vision model to use'),
-  prompt: z.string().optional().default('Extract all text from this image. Include any handwritten text, printed text, or text in UI elements. Format the output clearly.').describe('Custom prompt for text extraction'),
+  prompt: z.string().optional().default(DEFAULT_EXTRACTION_PROMPT).describe('Custom prompt for text extraction'),
   outputFormat: z.enum(['text', 'json', 'markdown']).optional().default('text').describe('Output format for extracted text'),
+  schemaId: z.string().optional().describe('Built-in extraction schema for structured JSON output'),
+  jsonSchema: z.record(z.any()).optional().describe('Custom JSON Schema for structured JSON output'),
+  preprocessing: z.array(preprocessingStepSchema).optional().describe('Image preprocessing steps applied before inference'),
+  confidenceSamples: z.number().int().min(0).max(MAX_CONFIDENCE_SAMPLES).optional()
+    .describe('Extra sampled generations compared with the answer to estimate confidence; 0 turns it off'),
+  generation: generationOptionsSchema.optional().describe('Sampling and runtime options passed to Ollama'),
+  language: languageHintIdSchema.optional().describe('Expected language of the text, e.g. ru or ja, so the model keeps its script'),
 });
 
 // Output schema
 export const imageExtractionOutputSchema = z.object({
   extractedText: z.string().describe('The text extracted from the image'),
+  structuredData: z.any().optional().describe('Schema-validated data when a schema was requested'),
+  confidence: confidenceEstimateSchema.optional().describe('Self-consistency estimate when confidence samples were requested'),
   metadata: z.object({
     model: z.string(),
     processingTime: z.number(),
     imageSize: z.number(),
-    confidence: z.string().optional(),
+    confidence: confidenceLevelSchema.optional(),
+    outputFormat: z.enum(['text', 'json', 'markdown']).optional().describe('Format of extractedText'),
+    contentType: z.string().optional().describe('Media type sent to the model'),
+    convertedFrom: z.string().optional().describe('Original format when the image was converted'),
+    preprocessing: z.array(preprocessingStepSchema).optional().describe('Preprocessing steps as applied'),
+    schema: z.string().optional(),
+    repairAttempts: z.number().optional(),
+    generation: generationOptionsSchema.optional().describe('Generation options the request asked for'),
+    language: detectedLanguageSchema.optional().describe('Script and language detected in the answer'),
+    cancelled: z.boolean().optional().describe('Set when the request was aborted before it finished'),
   }).describe('Metadata about the extraction process'),
 });
 
+// Number of times a structured extraction is retried with a repair prompt
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Confidence samples need some randomness, or they would repeat the main answer
+const SAMPLING_TEMPERATURE = 0.8;
+
+// Every model call resets Ollama's keep-alive, so it is applied after each one
+function keepAliveMiddleware(model: string, options?: GenerationOptions) {
+  return options?.keepAlive ? [keepModelLoaded(model, options.keepAlive)] : [];
+}
+
+// Appends the expected language and its script to the user's prompt
+function withLanguageHint(prompt: string, language?: string): string {
+  const hint = language ? getLanguageHint(language) : undefined;
+  return hint ? `${prompt}\n\n${buildLanguageInstructions(hint)}` : prompt;
+}
+
+// Field names are English, so only the values say which language the data is in
+function stringValues(data: unknown): string[] {
+  if (typeof data === 'string') return [data];
+  if (Array.isArray(data)) return data.flatMap(stringValues);
+  if (data && typeof data === 'object') return Object.values(data).flatMap(stringValues);
+  return [];
+}
+
+/**
+ * Resolves the requested output schema, if any, to a Genkit output config.
+ */
+function resolveOutputSchema(input: z.infer<typeof imageExtractionInputSchema>) {
+  if (input.jsonSchema) {
+    return { name: 'custom', output: { jsonSchema: input.jsonSchema } };
+  }
+  if (input.schemaId) {
+    const definition = getExtractionSchema(input.schemaId);
+    if (!definition) {
+      throw new GenkitError({ status: 'INVALID_ARGUMENT', message: `Unknown extraction schema: ${input.schemaId}` });
+    }
+    return { name: definition.id, output: { schema: definition.schema }, validate: definition.validate };
+  }
+  return null;
+}
+
+function buildRepairPrompt(previousOutput: string, error: unknown): string {
+  // Genkit validation errors echo the data and schema; keep only the parse errors
+  const reason = (error instanceof Error ? error.message : String(error)).split('\n\nProvided data:')[0];
+  return [
+    'Your previous answer did not match the required JSON schema.',
+    `Validation error: ${reason}`,
+    'Previous answer:',
+    previousOutput || '(empty)',
+    'Look at the image again and reply with only a corrected JSON object that matches the schema. Use null for fields that are not visible.',
+  ].join('\n\n');
+}
+
 // Main image text extraction flow
 export const extractTextFromImage = ai.defineFlow(
   {
@@ -29,30 +144,126 @@ export const extractTextFromImage = ai.defineFlow(
     outputSchema: imageExtractionOutputSchema,
     streamSchema: z.string(), // Enable streaming
   },
-  async (input, { sendChunk }) => {
+  async (input, { sendChunk, abortSignal }) => {
     const startTime = Date.now();
 
     try {
       // Calculate image size from base64
-      const imageSize = Buffer.from(input.imageBase64, 'base64').length;
+      const imageData = Buffer.from(input.imageBase64, 'base64');
+      const imageSize = imageData.length;
 
       // Validate image size (max 10MB)
       if (imageSize > 10 * 1024 * 1024) {
-        throw new Error('Image size exceeds 10MB limit');
+        throw new ExtractionError('IMAGE_TOO_LARGE', 'Image size exceeds 10MB limit', input.model);
       }
 
       console.log(`Processing image (${(imageSize / 1024).toFixed(2)}KB) with model: ${input.model}`);
+      if (input.generation) {
+        console.log(`Generation options: ${describeGenerationOptions(input.generation)}`);
+      }
+
+      // Send the real media type and convert formats the model can't read
+      const image = await normalizeImage(imageData);
+      let { data: modelImage, contentType } = image;
+      let preprocessing: PreprocessingStep[] | undefined;
+
+      if (input.preprocessing?.length) {
+        const processed = await applyPreprocessing(modelImage, input.preprocessing, input.model);
+        modelImage = processed.data;
+        contentType = 'image/png';
+        preprocessing = processed.applied;
+        console.log(`Preprocessed image: ${processed.applied.map(describePreprocessingStep).join(', ')}`);
+      }
+
+      const imagePart: MediaPart = {
+        media: { contentType, url: `data:${contentType};base64,${modelImage.toString('base64')}` },
+      };
+      const imageMetadata = { contentType, convertedFrom: image.convertedFrom, preprocessing, generation: input.generation };
+      const basePrompt = withLanguageHint(input.prompt, input.language);
+
+      const outputSchema = input.outputFormat === 'json' ? resolveOutputSchema(input) : null;
+      if (outputSchema) {
+        // Ask the model for schema-conforming JSON and repair invalid answers
+        let prompt = basePrompt;
+        let lastError: unknown;
+
+        for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+          let rawOutput = '';
+          let structuredData: unknown;
+          try {
+            const { response, stream } = await ai.generateStream({
+              model: ollama.model(input.model),
+              prompt: [{ text: prompt }, imagePart],
+              output: { format: 'json', ...outputSchema.output },
+              config: toModelConfig(input.generation),
+              abortSignal,
+              use: [abortOnSignal, ...keepAliveMiddleware(input.model, input.generation)],
+            });
+
+            for await (const chunk of stream) {
+              rawOutput += chunk.text;
+              sendChunk(chunk.text);
+            }
+
+            const finalResponse = await response;
+            rawOutput = finalResponse.text;
+            structuredData = parseSchema(finalResponse.output, outputSchema.output);
+            const problem = outputSchema.validate?.(structuredData);
+            if (problem) {
+              throw new GenkitError({ status: 'INVALID_ARGUMENT', message: problem });
+            }
+          } catch (error) {
+            // Genkit rejects output that doesn't match the schema; only that is worth
+            // another attempt, while Ollama and transport errors go to the outer catch
+            if (abortSignal.aborted || !(error instanceof GenkitError && error.status === 'INVALID_ARGUMENT')) {
+              throw error;
+            }
+            lastError = error;
+            console.warn(`Structured output attempt ${attempt + 1} failed validation:`, error.message);
+            prompt = `${basePrompt}\n\n${buildRepairPrompt(rawOutput, error)}`;
+            // Separate the repaired answer from the invalid one in the stream
+            sendChunk('\n\n');
+            continue;
+          }
+
+          return {
+            extractedText: JSON.stringify(structuredData, null, 2),
+            structuredData,
+            metadata: {
+              model: input.model,
+              processingTime: Date.now() - startTime,
+              imageSize,
+              ...imageMetadata,
+              schema: outputSchema.name,
+              repairAttempts: attempt,
+              language: detectLanguage(stringValues(structuredData).join('\n')),
+            },
+          };
+        }
+
+        throw new ExtractionError(
+          'MALFORMED_OUTPUT',
+          `Model output did not match the ${outputSchema.name} schema after ${MAX_REPAIR_ATTEMPTS} repair attempts: ` +
+            (lastError instanceof Error ? lastError.message : String(lastError)),
+          input.model
+        );
+      }
+
+      // Markdown is normalized before scoring, so confidence spans point into the returned text
+      const markdown = input.outputFormat === 'markdown';
+      const prompt = markdown ? `${basePrompt}\n\n${MARKDOWN_INSTRUCTIONS}` : basePrompt;
+      const readAnswer = (text: string) => (markdown ? normalizeMarkdown(text) : text);
 
       // Generate with streaming
       const { response, stream } = await ai.generateStream({
         model: ollama.model(input.model),
         prompt: [
-          { text: input.prompt },
-          { media: { contentType: 'image/jpeg', url: `data:image/jpeg;base64,${input.imageBase64}` } },
+          { text: prompt },
+          imagePart,
         ],
-        config: {
-          temperature: 0.3,
-        },
+        config: toModelConfig(input.generation),
+        abortSignal,
+        use: [abortOnSignal, ...keepAliveMiddleware(input.model, input.generation)],
       });
 
       // Stream the actual generated text
@@ -62,64 +273,494 @@ export const extractTextFromImage = ai.defineFlow(
 
       // Wait for the final response
       const finalResponse = await response;
-      const extractedText = finalResponse.text;
+      const extractedText = readAnswer(finalResponse.text);
+
+      // Sample more answers and score each word by how many of them agree with it
+      let confidence: ConfidenceEstimate | undefined;
+      if (input.confidenceSamples) {
+        console.log(`Sampling ${input.confidenceSamples} more answers to estimate confidence`);
+        const samples = await Promise.all(
+          Array.from({ length: input.confidenceSamples }, async () => {
+            // Streamed only so abortOnSignal can close each request when the extraction is cancelled
+            const { response, stream } = await ai.generateStream({
+              model: ollama.model(input.model),
+              prompt: [{ text: prompt }, imagePart],
+              // Only the limits carry over; a fixed seed or top K of 1 would repeat the main answer
+              config: {
+                ...toModelConfig(input.generation),
+                temperature: SAMPLING_TEMPERATURE,
+                topP: undefined,
+                topK: undefined,
+                seed: undefined,
+              },
+              abortSignal,
+              use: [abortOnSignal, ...keepAliveMiddleware(input.model, input.generation)],
+            });
+            for await (const _chunk of stream) {
+              // The samples are only compared once complete
+            }
+            return readAnswer((await response).text);
+          })
+        );
+        confidence = estimateConfidence(extractedText, samples);
+      }
       const processingTime = Date.now() - startTime;
 
-      // Format output based on requested format
+      // JSON output wraps the text, so spans and lines no longer apply
       let formattedText = extractedText;
       if (input.outputFormat === 'json') {
-        try {
-          formattedText = JSON.stringify(
-            {
-              text: extractedText,
-              lines: extractedText.split('\n').filter((line: string) => line.trim()),
-              wordCount: extractedText.split(/\s+/).filter((word: string) => word).length,
-            },
-            null,
-            2
-          );
-        } catch {
-          formattedText = extractedText;
-        }
-      } else if (input.outputFormat === 'markdown') {
-        formattedText = `# Extracted Text\n\n${extractedText}`;
+        formattedText = JSON.stringify(summarizeText(extractedText), null, 2);
+        confidence &&= { ...confidence, lines: [], lowAgreementSpans: [] };
       }
 
       // Don't send status messages - only the extracted text is streamed
 
       return {
         extractedText: formattedText,
+        confidence,
         metadata: {
           model: input.model,
           processingTime,
           imageSize,
-          confidence: 'High',
+          ...imageMetadata,
+          outputFormat: input.outputFormat,
+          confidence: confidence?.level,
+          language: detectLanguage(extractedText),
         },
       };
     } catch (error) {
+      // A cancelled request is not a failure; the caller already stopped listening
+      if (abortSignal.aborted) {
+        console.log(`Extraction with ${input.model} cancelled`);
+        return {
+          extractedText: '',
+          metadata: {
+            model: input.model,
+            processingTime: Date.now() - startTime,
+            imageSize: 0,
+            cancelled: true,
+          },
+        };
+      }
+
       console.error('Error processing image:', error);
+      throw toExtractionError(error, input.model);
+    }
+  }
+);
 
-      let errorMessage = 'Failed to extract text from image';
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      }
+/**
+ * Extracts one page, tile or region of a larger request. A failed section is
+ * reported alongside the others, unless the failure would repeat for every
+ * section (Ollama down, model missing) or the request was cancelled.
+ */
+async function extractSection(
+  input: z.infer<typeof imageExtractionInputSchema>,
+  options: { onChunk?: (text: string) => void; abortSignal: AbortSignal }
+): Promise<{ text: string; error?: string }> {
+  try {
+    const result = await extractTextFromImage(input, options);
+    options.abortSignal.throwIfAborted();
+    return { text: result.extractedText };
+  } catch (error) {
+    if (options.abortSignal.aborted || isRequestWideError(error)) throw error;
+    return { text: '', error: parseExtractionError(error).message };
+  }
+}
 
-      return {
-        extractedText: '',
-        metadata: {
+// Apply preprocessing steps so the UI can preview exactly what the model will see
+export const preprocessImage = ai.defineFlow(
+  {
+    name: 'preprocessImage',
+    inputSchema: z.object({
+      imageBase64: z.string().describe('Base64 encoded image data'),
+      model: z.string().describe('Vision model, used to resolve automatic downscaling'),
+      steps: z.array(preprocessingStepSchema),
+    }),
+    outputSchema: z.object({
+      imageBase64: z.string().describe('Base64 encoded PNG after preprocessing'),
+      width: z.number(),
+      height: z.number(),
+      applied: z.array(preprocessingStepSchema),
+    }),
+  },
+  async (input) => {
+    const processed = await normalizeImage(Buffer.from(input.imageBase64, 'base64'))
+      .then(image => applyPreprocessing(image.data, input.steps, input.model))
+      .catch(error => {
+        throw toExtractionError(error, input.model);
+      });
+
+    return {
+      imageBase64: processed.data.toString('base64'),
+      width: processed.width,
+      height: processed.height,
+      applied: processed.applied,
+    };
+  }
+);
+
+// Tiled extraction schemas
+export const tiledExtractionInputSchema = z.object({
+  imageBase64: z.string().describe('Base64 encoded image data'),
+  model: z.string().describe('Vision model to use'),
+  prompt: z.string().optional().default(DEFAULT_EXTRACTION_PROMPT).describe('Custom prompt applied to every tile'),
+  tileSize: z.number().int().min(256).max(4096).optional().describe('Tile edge in pixels, defaults to the model input resolution'),
+  overlap: z.number().min(0).max(0.5).optional().default(0.15).describe('Fraction of each tile shared with its neighbours'),
+  concurrency: z.number().int().min(1).max(4).optional().default(1).describe('Number of tiles processed in parallel'),
+  preprocessing: z.array(preprocessingStepSchema).optional().describe('Image preprocessing steps applied before tiling'),
+  generation: generationOptionsSchema.optional().describe('Sampling and runtime options passed to Ollama'),
+  language: languageHintIdSchema.optional().describe('Expected language of the text, e.g. ru or ja, so the model keeps its script'),
+});
+
+export const tiledExtractionChunkSchema = z.object({
+  tile: z.number().describe('0-based tile index in reading order'),
+  tileCount: z.number(),
+  row: z.number(),
+  col: z.number(),
+  status: z.enum(['extracting', 'completed', 'failed']),
+  text: z.string().optional().describe('Full tile text, sent once the tile is completed'),
+});
+
+export const tiledExtractionOutputSchema = z.object({
+  extractedText: z.string().describe('Stitched text of all tiles in reading order'),
+  tiles: z.array(z.object({
+    index: z.number(),
+    row: z.number(),
+    col: z.number(),
+    left: z.number(),
+    top: z.number(),
+    width: z.number(),
+    height: z.number(),
+    text: z.string(),
+    error: z.string().optional(),
+    processingTime: z.number(),
+  })),
+  metadata: z.object({
+    model: z.string(),
+    processingTime: z.number(),
+    imageSize: z.number(),
+    rows: z.number(),
+    cols: z.number(),
+    tileSize: z.number(),
+    overlap: z.number(),
+    preprocessing: z.array(preprocessingStepSchema).optional(),
+    language: detectedLanguageSchema.optional(),
+  }),
+});
+
+// Split large or dense images into overlapping tiles and stitch the results
+export const extractTextFromTiles = ai.defineFlow(
+  {
+    name: 'extractTextFromTiles',
+    inputSchema: tiledExtractionInputSchema,
+    outputSchema: tiledExtractionOutputSchema,
+    streamSchema: tiledExtractionChunkSchema,
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    const startTime = Date.now();
+    const imageData = Buffer.from(input.imageBase64, 'base64');
+
+    // Validate image size (max 10MB)
+    if (imageData.length > 10 * 1024 * 1024) {
+      throw new ExtractionError('IMAGE_TOO_LARGE', 'Image size exceeds 10MB limit', input.model);
+    }
+
+    let { data } = await normalizeImage(imageData).catch(error => {
+      throw toExtractionError(error, input.model);
+    });
+    let preprocessing: PreprocessingStep[] | undefined;
+    if (input.preprocessing?.length) {
+      const processed = await applyPreprocessing(data, input.preprocessing, input.model).catch(error => {
+        throw toExtractionError(error, input.model);
+      });
+      data = processed.data;
+      preprocessing = processed.applied;
+    }
+
+    // Tiles at the model's native resolution are not downscaled any further
+    const tileSize = input.tileSize ?? getModelInputResolution(input.model);
+    const grid = await splitIntoTiles(data, { tileSize, overlap: input.overlap });
+    const tileCount = grid.tiles.length;
+
+    console.log(`Processing ${grid.width}x${grid.height} image as ${grid.rows}x${grid.cols} tiles with model: ${input.model}`);
+
+    const tiles = await mapWithConcurrency(grid.tiles, input.concurrency, async (tile) => {
+      const tileStart = Date.now();
+      const position = { tile: tile.index, tileCount, row: tile.row, col: tile.col };
+      sendChunk({ ...position, status: 'extracting' });
+
+      const { text, error } = await extractSection(
+        {
+          imageBase64: tile.data.toString('base64'),
           model: input.model,
-          processingTime: Date.now() - startTime,
-          imageSize: 0,
-          confidence: 'Error: ' + errorMessage,
+          prompt: input.prompt,
+          outputFormat: 'text',
+          generation: input.generation,
+          language: input.language,
         },
-      };
+        { abortSignal }
+      );
+
+      sendChunk({ ...position, status: error ? 'failed' : 'completed', text });
+
+      const { data: _data, ...bounds } = tile;
+      return { ...bounds, text, error, processingTime: Date.now() - tileStart };
+    });
+
+    const extractedText = stitchTileTexts(tiles);
+
+    return {
+      extractedText,
+      tiles,
+      metadata: {
+        model: input.model,
+        processingTime: Date.now() - startTime,
+        imageSize: imageData.length,
+        rows: grid.rows,
+        cols: grid.cols,
+        tileSize,
+        overlap: input.overlap,
+        preprocessing,
+        language: detectLanguage(extractedText),
+      },
+    };
+  }
+);
+
+// Region extraction schemas
+export const regionExtractionInputSchema = z.object({
+  imageBase64: z.string().describe('Base64 encoded image data'),
+  model: z.string().describe('Vision model to use'),
+  prompt: z.string().optional().default(DEFAULT_EXTRACTION_PROMPT).describe('Custom prompt applied to every region'),
+  outputFormat: z.enum(['text', 'json', 'markdown']).optional().default('text').describe('Output format for the combined result'),
+  regions: z.array(regionSchema).min(1).max(20),
+  preprocessing: z.array(preprocessingStepSchema).optional().describe('Image preprocessing steps applied to each region crop'),
+  generation: generationOptionsSchema.optional().describe('Sampling and runtime options passed to Ollama'),
+  language: languageHintIdSchema.optional().describe('Expected language of the text, e.g. ru or ja, so the model keeps its script'),
+});
+
+export const regionExtractionChunkSchema = z.object({
+  region: z.number().describe('0-based index of the region'),
+  regionCount: z.number(),
+  label: z.string(),
+  status: z.enum(['extracting', 'completed', 'failed']),
+  text: z.string().optional().describe('Newly generated text for the region'),
+});
+
+export const regionExtractionOutputSchema = z.object({
+  extractedText: z.string().describe('Combined text of all regions with labeled sections'),
+  regions: z.array(regionSchema.extend({
+    text: z.string(),
+    error: z.string().optional(),
+    processingTime: z.number(),
+  })),
+  metadata: z.object({
+    model: z.string(),
+    processingTime: z.number(),
+    imageSize: z.number(),
+    regionCount: z.number(),
+    preprocessing: z.array(preprocessingStepSchema).optional(),
+    outputFormat: z.enum(['text', 'json', 'markdown']).optional(),
+    language: detectedLanguageSchema.optional(),
+  }),
+});
+
+// Crop user-drawn regions and extract each one as its own labeled section
+export const extractTextFromRegions = ai.defineFlow(
+  {
+    name: 'extractTextFromRegions',
+    inputSchema: regionExtractionInputSchema,
+    outputSchema: regionExtractionOutputSchema,
+    streamSchema: regionExtractionChunkSchema,
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    const startTime = Date.now();
+    const imageData = Buffer.from(input.imageBase64, 'base64');
+
+    // Validate image size (max 10MB)
+    if (imageData.length > 10 * 1024 * 1024) {
+      throw new ExtractionError('IMAGE_TOO_LARGE', 'Image size exceeds 10MB limit', input.model);
+    }
+
+    const { data } = await normalizeImage(imageData).catch(error => {
+      throw toExtractionError(error, input.model);
+    });
+    const regionCount = input.regions.length;
+    const regions: z.infer<typeof regionExtractionOutputSchema>['regions'] = [];
+    let preprocessing: PreprocessingStep[] | undefined;
+
+    console.log(`Processing ${regionCount} regions with model: ${input.model}`);
+
+    for (const [index, region] of input.regions.entries()) {
+      const regionStart = Date.now();
+      const position = { region: index, regionCount, label: region.label };
+      sendChunk({ ...position, status: 'extracting' });
+
+      // Crop first so the remaining steps (rotation, contrast, ...) only touch the region
+      const { label: _label, ...bounds } = region;
+      const processed = await applyPreprocessing(
+        data,
+        [{ type: 'crop', ...bounds }, ...(input.preprocessing ?? [])],
+        input.model
+      ).catch(error => {
+        throw toExtractionError(error, input.model);
+      });
+      preprocessing ??= processed.applied.slice(1);
+
+      const { text, error } = await extractSection(
+        {
+          imageBase64: processed.data.toString('base64'),
+          model: input.model,
+          prompt: input.prompt,
+          // Markdown sections keep their own layout; JSON summarizes the combined text
+          outputFormat: input.outputFormat === 'markdown' ? 'markdown' : 'text',
+          generation: input.generation,
+          language: input.language,
+        },
+        { onChunk: (text: string) => sendChunk({ ...position, status: 'extracting', text }), abortSignal }
+      );
+
+      regions.push({ ...region, text, error, processingTime: Date.now() - regionStart });
+      sendChunk({ ...position, status: error ? 'failed' : 'completed' });
+    }
+
+    return {
+      extractedText: combineSectionTexts(
+        regions.map(({ label, text, error }) => ({ title: label, text, error })),
+        input.outputFormat
+      ),
+      regions,
+      metadata: {
+        model: input.model,
+        processingTime: Date.now() - startTime,
+        imageSize: imageData.length,
+        regionCount,
+        preprocessing: preprocessing?.length ? preprocessing : undefined,
+        outputFormat: input.outputFormat,
+        language: detectLanguage(regions.map(region => region.text).join('\n')),
+      },
+    };
+  }
+);
+
+// PDF extraction schemas
+export const documentExtractionInputSchema = z.object({
+  pdfBase64: z.string().describe('Base64 encoded PDF data'),
+  model: z.string().describe('Vision model to use'),
+  prompt: z.string().optional().default(DEFAULT_EXTRACTION_PROMPT).describe('Custom prompt applied to every page'),
+  outputFormat: z.enum(['text', 'json', 'markdown']).optional().default('text').describe('Output format for the combined document'),
+  maxPages: z.number().int().min(1).max(MAX_PDF_PAGES).optional().describe('Only process the first N pages'),
+  generation: generationOptionsSchema.optional().describe('Sampling and runtime options passed to Ollama'),
+  language: languageHintIdSchema.optional().describe('Expected language of the text, e.g. ru or ja, so the model keeps its script'),
+});
+
+export const documentExtractionChunkSchema = z.object({
+  page: z.number().describe('1-based page number the chunk belongs to'),
+  pageCount: z.number(),
+  status: z.enum(['extracting', 'completed', 'failed']),
+  text: z.string().optional().describe('Newly generated text for the page'),
+});
+
+export const documentExtractionOutputSchema = z.object({
+  extractedText: z.string().describe('Combined text of all pages with page markers'),
+  pages: z.array(z.object({
+    page: z.number(),
+    text: z.string(),
+    error: z.string().optional(),
+    processingTime: z.number(),
+  })),
+  metadata: z.object({
+    model: z.string(),
+    processingTime: z.number(),
+    fileSize: z.number(),
+    pageCount: z.number(),
+    outputFormat: z.enum(['text', 'json', 'markdown']).optional(),
+    language: detectedLanguageSchema.optional(),
+  }),
+});
+
+// Rasterize each PDF page and run it through the image extraction flow
+export const extractTextFromDocument = ai.defineFlow(
+  {
+    name: 'extractTextFromDocument',
+    inputSchema: documentExtractionInputSchema,
+    outputSchema: documentExtractionOutputSchema,
+    streamSchema: documentExtractionChunkSchema,
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    const startTime = Date.now();
+    const data = Buffer.from(input.pdfBase64, 'base64');
+
+    // Validate PDF size (max 25MB)
+    if (data.length > 25 * 1024 * 1024) {
+      throw new ExtractionError('IMAGE_TOO_LARGE', 'PDF size exceeds 25MB limit', input.model);
+    }
+    if (!isPdf(data)) {
+      throw new ExtractionError('UNSUPPORTED_FORMAT', 'File is not a valid PDF document', input.model);
+    }
+
+    console.log(`Processing PDF (${(data.length / 1024).toFixed(2)}KB) with model: ${input.model}`);
+
+    const pages: z.infer<typeof documentExtractionOutputSchema>['pages'] = [];
+    let pageCount = 0;
+
+    // A damaged PDF can still start with the signature; pdf.js fails on it while rendering
+    try {
+      for await (const rendered of renderPdfPages(data, { maxPages: input.maxPages })) {
+        const pageStart = Date.now();
+        const { pageNumber: page } = rendered;
+        pageCount = rendered.pageCount;
+
+        sendChunk({ page, pageCount, status: 'extracting' });
+
+        const { text, error } = await extractSection(
+          {
+            imageBase64: rendered.imageBase64,
+            model: input.model,
+            prompt: input.prompt,
+            outputFormat: input.outputFormat === 'markdown' ? 'markdown' : 'text',
+            generation: input.generation,
+            language: input.language,
+          },
+          { onChunk: (text: string) => sendChunk({ page, pageCount, status: 'extracting', text }), abortSignal }
+        );
+
+        pages.push({ page, text, error, processingTime: Date.now() - pageStart });
+        sendChunk({ page, pageCount, status: error ? 'failed' : 'completed' });
+      }
+    } catch (error) {
+      throw toExtractionError(error, input.model);
     }
+
+    const sections: TextSection[] = pages.map(({ page, text, error }) => ({ title: pageTitle(page), text, error }));
+
+    return {
+      extractedText: combineSectionTexts(sections, input.outputFormat),
+      pages,
+      metadata: {
+        model: input.model,
+        processingTime: Date.now() - startTime,
+        fileSize: data.length,
+        pageCount,
+        outputFormat: input.outputFormat,
+        language: detectLanguage(pages.map(page => page.text).join('\n')),
+      },
+    };
   }
 );
 
 // Import the checkOllamaStatus function from ollama.ts
-import { checkOllamaStatus as checkOllamaStatusFn } from '../ollama';
-import { getModelDisplayInfo } from './config';
+import {
+  checkOllamaStatus as checkOllamaStatusFn,
+  getVisionModelStatus,
+  listTextModels,
+  pullModel as pullOllamaModel,
+  deleteModel as deleteOllamaModel,
+  showModel as showOllamaModel,
+} from '../ollama';
+import { getModelDisplayInfo, RECOMMENDED_VISION_MODELS } from './config';
+import { formatFileSize } from '../utils';
 
 // Check Ollama status flow
 export const checkOllamaStatus = ai.defineFlow(
@@ -136,19 +777,28 @@ export const checkOllamaStatus = ai.defineFlow(
   }
 );
 
+const availableModelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  size: z.string().describe('Size on disk, or the download size of a model that is not installed'),
+  sizeBytes: z.number().optional(),
+  parameterSize: z.string().optional(),
+  quantization: z.string().optional(),
+  vision: z.object({
+    source: z.enum(['capabilities', 'projector', 'families', 'name']),
+    reason: z.string(),
+  }).optional().describe('Why an installed model was classified as vision-capable'),
+  available: z.boolean().describe('Whether the model is installed'),
+  recommended: z.boolean(),
+});
+
 // Get available models flow
 export const getAvailableModels = ai.defineFlow(
   {
     name: 'getAvailableModels',
     outputSchema: z.object({
-      models: z.array(z.object({
-        id: z.string(),
-        name: z.string(),
-        description: z.string(),
-        size: z.string(),
-        available: z.boolean(),
-        recommended: z.boolean(),
-      })),
+      models: z.array(availableModelSchema),
       ollamaStatus: z.object({
         isRunning: z.boolean(),
         models: z.array(z.string()),
@@ -158,28 +808,44 @@ export const getAvailableModels = ai.defineFlow(
   },
   async () => {
     // Check which models are actually available
-    const status = await checkOllamaStatusFn();
+    const { status, models: installed } = await getVisionModelStatus();
     
     // Build model list from discovered models
-    const models = status.models.map(modelId => {
-      const displayInfo = getModelDisplayInfo(modelId);
-      
-      // Get size from Ollama API if available
-      const sizeInfo = modelId.includes(':') ? modelId.split(':')[1] : '';
+    const models: z.infer<typeof availableModelSchema>[] = installed.map(model => {
+      const displayInfo = getModelDisplayInfo(model.name);
       
       return {
-        id: modelId,
+        id: model.name,
         name: displayInfo.name,
         description: displayInfo.description,
-        size: sizeInfo || 'Unknown',
+        size: formatFileSize(model.size),
+        sizeBytes: model.size,
+        parameterSize: model.details?.parameter_size,
+        quantization: model.details?.quantization_level,
+        vision: { source: model.vision.source, reason: model.vision.reason },
         available: true,
         // Prefer gemma3 models
-        recommended: modelId.toLowerCase().startsWith('gemma3'),
+        recommended: model.name.toLowerCase().startsWith('gemma3'),
       };
     });
+
+    // Offer recommended models that can be installed with one click
+    if (status.isRunning) {
+      for (const { id, downloadSize } of RECOMMENDED_VISION_MODELS) {
+        if (models.some(model => model.id === id)) continue;
+        models.push({
+          ...getModelDisplayInfo(id),
+          id,
+          size: `${downloadSize} download`,
+          available: false,
+          recommended: false,
+        });
+      }
+    }
     
-    // Sort models: recommended first, then alphabetically
+    // Sort models: installed first, then recommended, then alphabetically
     models.sort((a, b) => {
+      if (a.available !== b.available) return a.available ? -1 : 1;
       if (a.recommended && !b.recommended) return -1;
       if (!a.recommended && b.recommended) return 1;
       return a.name.localeCompare(b.name);
@@ -190,4 +856,492 @@ export const getAvailableModels = ai.defineFlow(
       ollamaStatus: status,
     };
   }
-);
\ No newline at end of file
+);
+
+const modelInputSchema = z.object({
+  model: z.string().describe('Ollama model name, e.g. llava:7b'),
+});
+
+// Download a model through Ollama, streaming its progress messages
+export const pullModel = ai.defineFlow(
+  {
+    name: 'pullModel',
+    inputSchema: modelInputSchema,
+    outputSchema: z.object({ model: z.string() }),
+    streamSchema: z.object({
+      status: z.string(),
+      digest: z.string().optional(),
+      total: z.number().optional(),
+      completed: z.number().optional(),
+    }),
+  },
+  async ({ model }, { sendChunk, abortSignal }) => {
+    console.log(`Pulling model ${model}`);
+    try {
+      await pullOllamaModel(model, ({ status, digest, total, completed }) => sendChunk({ status, digest, total, completed }), abortSignal);
+    } catch (error) {
+      if (error instanceof Error && /file does not exist|manifest.*not found/i.test(error.message)) {
+        throw new GenkitError({ status: 'NOT_FOUND', message: `${model} was not found in the Ollama library` });
+      }
+      throw toExtractionError(error, model);
+    }
+    return { model };
+  }
+);
+
+export const deleteModel = ai.defineFlow(
+  {
+    name: 'deleteModel',
+    inputSchema: modelInputSchema,
+    outputSchema: z.object({ model: z.string() }),
+  },
+  async ({ model }) => {
+    console.log(`Deleting model ${model}`);
+    await deleteOllamaModel(model).catch(error => {
+      throw toExtractionError(error, model);
+    });
+    return { model };
+  }
+);
+
+// Read parameter count, quantization, context length and capabilities of an installed model
+export const showModel = ai.defineFlow(
+  {
+    name: 'showModel',
+    inputSchema: modelInputSchema,
+    outputSchema: z.object({
+      model: z.string(),
+      family: z.string().optional(),
+      format: z.string().optional(),
+      parameterSize: z.string().optional(),
+      parameterCount: z.number().optional(),
+      quantization: z.string().optional(),
+      contextLength: z.number().optional(),
+      capabilities: z.array(z.string()).optional(),
+      modifiedAt: z.string().optional(),
+    }),
+  },
+  async ({ model }) => {
+    const details = await showOllamaModel(model).catch(error => {
+      throw toExtractionError(error, model);
+    });
+    return { model, ...details };
+  }
+);
+
+// List installed models that can translate extracted text, vision models included
+export const getTextModels = ai.defineFlow(
+  {
+    name: 'getTextModels',
+    outputSchema: z.object({
+      models: z.array(z.object({
+        id: z.string(),
+        size: z.string(),
+        parameterSize: z.string().optional(),
+      })),
+    }),
+  },
+  async () => {
+    const models = await listTextModels().catch(() => {
+      throw new ExtractionError('OLLAMA_UNREACHABLE', 'Cannot connect to the Ollama server');
+    });
+    return {
+      models: models.map(model => ({
+        id: model.name,
+        size: formatFileSize(model.size),
+        parameterSize: model.details?.parameter_size,
+      })),
+    };
+  }
+);
+
+import { loadPromptTemplates } from './prompts';
+import { promptTemplateSchema } from '../prompts';
+
+// Shared prompt templates from the dotprompt files in the prompts directory
+export const getPromptTemplates = ai.defineFlow(
+  {
+    name: 'getPromptTemplates',
+    outputSchema: z.object({ templates: z.array(promptTemplateSchema) }),
+  },
+  async () => {
+    return { templates: await loadPromptTemplates() };
+  }
+);
+
+import { readHotFolderStatus, hotFolderStatusSchema } from '../hotfolder';
+
+// Status of the hot folder watcher, which runs as its own process (npm run hotfolder)
+export const getHotFolderStatus = ai.defineFlow(
+  {
+    name: 'getHotFolderStatus',
+    outputSchema: z.object({
+      configured: z.boolean().describe('Whether the hot folder config file exists'),
+      running: z.boolean().describe('Whether the watcher has written its status recently'),
+      status: hotFolderStatusSchema.optional().describe('Last status written by the watcher'),
+      error: z.string().optional(),
+    }),
+  },
+  async () => {
+    return await readHotFolderStatus();
+  }
+);
+
+import {
+  createBatch,
+  getBatch,
+  cancelBatchItems,
+  retryBatchItems,
+  type Batch,
+  type BatchItemProcessor,
+} from '../batch';
+
+const batchItemStatusSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']),
+  attempts: z.number(),
+  result: imageExtractionOutputSchema.optional(),
+  error: z.string().optional(),
+  errorCode: z.enum(EXTRACTION_ERROR_CODES).optional(),
+  startedAt: z.number().optional(),
+  finishedAt: z.number().optional(),
+});
+
+const batchStatusSchema = z.object({
+  id: z.string(),
+  createdAt: z.number(),
+  model: z.string(),
+  concurrency: z.number(),
+  items: z.array(batchItemStatusSchema),
+});
+
+// Strip image data and internals before sending a batch to the client
+function toBatchStatus(batch: Batch): z.infer<typeof batchStatusSchema> {
+  return {
+    id: batch.id,
+    createdAt: batch.createdAt,
+    model: batch.options.model,
+    concurrency: batch.options.concurrency,
+    items: batch.items.map(({ imageBase64: _imageBase64, ...item }) => ({
+      ...item,
+      result: item.result as z.infer<typeof imageExtractionOutputSchema> | undefined,
+    })),
+  };
+}
+
+function requireBatch(batchId: string): Batch {
+  const batch = getBatch(batchId);
+  if (!batch) {
+    throw new GenkitError({ status: 'NOT_FOUND', message: `Batch ${batchId} not found` });
+  }
+  return batch;
+}
+
+// Run a single queued image through the extraction flow
+const processBatchItem: BatchItemProcessor = async (item, options, signal) => {
+  return extractTextFromImage(
+    {
+      // Only completed items drop their image, and those are never queued again
+      imageBase64: item.imageBase64!,
+      model: options.model,
+      prompt: options.prompt || DEFAULT_EXTRACTION_PROMPT,
+      outputFormat: options.outputFormat ?? 'text',
+      generation: options.generation,
+      language: options.language,
+    },
+    { abortSignal: signal }
+  );
+};
+
+// Queue many images for extraction with a concurrency limit
+export const startBatchExtraction = ai.defineFlow(
+  {
+    name: 'startBatchExtraction',
+    inputSchema: z.object({
+      images: z.array(z.object({
+        fileName: z.string(),
+        imageBase64: z.string().describe('Base64 encoded image data'),
+      })).min(1).max(200),
+      model: z.string().describe('Vision model to use'),
+      prompt: z.string().optional().describe('Custom prompt for text extraction'),
+      outputFormat: z.enum(['text', 'json', 'markdown']).optional().default('text'),
+      generation: generationOptionsSchema.optional().describe('Sampling and runtime options passed to Ollama'),
+      language: languageHintIdSchema.optional().describe('Expected language of the text, e.g. ru or ja'),
+      concurrency: z.number().int().min(1).max(8).optional()
+        .default(Number(process.env.BATCH_CONCURRENCY) || 2)
+        .describe('Maximum number of images processed at the same time'),
+    }),
+    outputSchema: batchStatusSchema,
+  },
+  async (input) => {
+    const batch = createBatch(
+      input.images,
+      {
+        model: input.model,
+        prompt: input.prompt,
+        outputFormat: input.outputFormat,
+        generation: input.generation,
+        language: input.language,
+        concurrency: input.concurrency,
+      },
+      processBatchItem
+    );
+
+    console.log(`Queued batch ${batch.id} with ${batch.items.length} images (concurrency ${input.concurrency})`);
+
+    return toBatchStatus(batch);
+  }
+);
+
+// Get per-item progress and results of a batch
+export const getBatchStatus = ai.defineFlow(
+  {
+    name: 'getBatchStatus',
+    inputSchema: z.object({ batchId: z.string() }),
+    outputSchema: batchStatusSchema,
+  },
+  async ({ batchId }) => {
+    return toBatchStatus(requireBatch(batchId));
+  }
+);
+
+// Cancel queued or running batch items (all of them if no ids are given)
+export const cancelBatch = ai.defineFlow(
+  {
+    name: 'cancelBatch',
+    inputSchema: z.object({
+      batchId: z.string(),
+      itemIds: z.array(z.string()).optional(),
+    }),
+    outputSchema: batchStatusSchema,
+  },
+  async ({ batchId, itemIds }) => {
+    const batch = requireBatch(batchId);
+    cancelBatchItems(batch, itemIds);
+    return toBatchStatus(batch);
+  }
+);
+
+// Re-queue failed or cancelled batch items (all of them if no ids are given)
+export const retryBatch = ai.defineFlow(
+  {
+    name: 'retryBatch',
+    inputSchema: z.object({
+      batchId: z.string(),
+      itemIds: z.array(z.string()).optional(),
+    }),
+    outputSchema: batchStatusSchema,
+  },
+  async ({ batchId, itemIds }) => {
+    const batch = requireBatch(batchId);
+    retryBatchItems(batch, itemIds);
+    return toBatchStatus(batch);
+  }
+);
+
+import { buildTranslationPrompt, parseNumberedLine, TRANSLATION_BATCH_LINES } from '../translation';
+
+// Translations should stay close to the source rather than paraphrase it
+const TRANSLATION_TEMPERATURE = 0.2;
+
+export const translationInputSchema = z.object({
+  text: z.string().describe('Extracted text to translate'),
+  model: z.string().describe('Installed Ollama model used for the translation'),
+  targetLanguage: z.string().min(1).describe('Language to translate into, e.g. English'),
+  sourceLanguage: z.string().optional().describe('Language of the text; the model detects it when omitted'),
+});
+
+export const translationChunkSchema = z.object({
+  line: z.number().describe('0-based index of the translated line in the original text'),
+  text: z.string(),
+});
+
+export const translationOutputSchema = z.object({
+  translatedText: z.string().describe('Translation with the line structure of the original'),
+  lines: z.array(z.object({
+    original: z.string(),
+    translation: z.string(),
+    missing: z.boolean().optional().describe('Set when the model did not return this line'),
+  })),
+  metadata: z.object({
+    model: z.string(),
+    targetLanguage: z.string(),
+    sourceLanguage: z.string().optional(),
+    processingTime: z.number(),
+    missingLines: z.number(),
+    cancelled: z.boolean().optional(),
+  }),
+});
+
+// Translate extracted text line by line so the result lines up with the original
+export const translateText = ai.defineFlow(
+  {
+    name: 'translateText',
+    inputSchema: translationInputSchema,
+    outputSchema: translationOutputSchema,
+    streamSchema: translationChunkSchema,
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    const startTime = Date.now();
+    const originals = input.text.split('\n');
+    const translations = new Map<number, string>();
+
+    const translateLines = async (indices: number[]) => {
+      const { response, stream } = await ai.generateStream({
+        model: ollama.model(input.model),
+        prompt: buildTranslationPrompt(indices.map(i => ({ number: i + 1, text: originals[i].trim() })), input),
+        config: { temperature: TRANSLATION_TEMPERATURE },
+        abortSignal,
+        use: [abortOnSignal],
+      });
+
+      const take = (answerLine: string) => {
+        const parsed = parseNumberedLine(answerLine);
+        const index = parsed ? parsed.number - 1 : -1;
+        if (!parsed || !indices.includes(index) || translations.has(index)) return;
+        // Keep the indentation of the original line
+        const text = `${originals[index].match(/^\s*/)![0]}${parsed.text}`;
+        translations.set(index, text);
+        sendChunk({ line: index, text });
+      };
+
+      // Lines are sent as soon as the model finishes them
+      let buffer = '';
+      for await (const chunk of stream) {
+        const lines = (buffer + chunk.text).split('\n');
+        buffer = lines.pop()!;
+        lines.forEach(take);
+      }
+      await response;
+      take(buffer);
+    };
+
+    // Blank lines stay blank and are not sent to the model
+    let pending = originals.flatMap((line, i) => (line.trim() ? [i] : []));
+    console.log(`Translating ${pending.length} lines into ${input.targetLanguage} with model: ${input.model}`);
+
+    try {
+      // Lines the model skipped or merged get one more request of their own
+      for (let attempt = 0; attempt < 2 && pending.length > 0; attempt++) {
+        for (let start = 0; start < pending.length; start += TRANSLATION_BATCH_LINES) {
+          await translateLines(pending.slice(start, start + TRANSLATION_BATCH_LINES));
+        }
+        pending = pending.filter(i => !translations.has(i));
+      }
+    } catch (error) {
+      if (!abortSignal.aborted) {
+        console.error('Error translating text:', error);
+        throw toExtractionError(error, input.model);
+      }
+      console.log(`Translation with ${input.model} cancelled`);
+    }
+
+    const lines = originals.map((original, i) => ({
+      original,
+      translation: translations.get(i) ?? '',
+      missing: original.trim() && !translations.has(i) ? true : undefined,
+    }));
+
+    return {
+      translatedText: lines.map(line => line.translation).join('\n'),
+      lines,
+      metadata: {
+        model: input.model,
+        targetLanguage: input.targetLanguage,
+        sourceLanguage: input.sourceLanguage,
+        processingTime: Date.now() - startTime,
+        missingLines: lines.filter(line => line.missing).length,
+        cancelled: abortSignal.aborted || undefined,
+      },
+    };
+  }
+);
+
+
+import { chatMessageSchema, buildChatSystemPrompt, trimChatHistory } from '../chat';
+
+export const imageChatInputSchema = z.object({
+  imageBase64: z.string().describe('Base64 encoded image the conversation is about'),
+  model: z.string().describe('Vision model to use'),
+  extractedText: z.string().describe('Earlier extraction of the image, given to the model as context'),
+  messages: z.array(chatMessageSchema).min(1).describe('Conversation so far, ending with the new question'),
+  generation: generationOptionsSchema.optional().describe('Sampling and runtime options passed to Ollama'),
+});
+
+export const imageChatOutputSchema = z.object({
+  reply: z.string(),
+  metadata: z.object({
+    model: z.string(),
+    processingTime: z.number(),
+    cancelled: z.boolean().optional(),
+  }),
+});
+
+// Answer follow-up questions about an extracted image; the client keeps the conversation
+export const chatAboutImage = ai.defineFlow(
+  {
+    name: 'chatAboutImage',
+    inputSchema: imageChatInputSchema,
+    outputSchema: imageChatOutputSchema,
+    streamSchema: z.string(),
+  },
+  async (input, { sendChunk, abortSignal }) => {
+    const startTime = Date.now();
+    const imageData = Buffer.from(input.imageBase64, 'base64');
+
+    if (input.messages[input.messages.length - 1].role !== 'user') {
+      throw new GenkitError({ status: 'INVALID_ARGUMENT', message: 'The last message must be a question' });
+    }
+
+    // Validate image size (max 10MB)
+    if (imageData.length > 10 * 1024 * 1024) {
+      throw new ExtractionError('IMAGE_TOO_LARGE', 'Image size exceeds 10MB limit', input.model);
+    }
+
+    let reply = '';
+    try {
+      const { data, contentType } = await normalizeImage(imageData);
+      const imagePart: MediaPart = {
+        media: { contentType, url: `data:${contentType};base64,${data.toString('base64')}` },
+      };
+
+      // The image goes with the first question only, as it would in a chat
+      const messages = trimChatHistory(input.messages).map((message, i) => ({
+        role: message.role,
+        content: i === 0 ? [{ text: message.text }, imagePart] : [{ text: message.text }],
+      }));
+      console.log(`Answering question ${input.messages.filter(m => m.role === 'user').length} about an image with model: ${input.model}`);
+
+      const { response, stream } = await ai.generateStream({
+        model: ollama.model(input.model),
+        system: buildChatSystemPrompt(input.extractedText),
+        messages,
+        config: toModelConfig(input.generation),
+        abortSignal,
+        use: [abortOnSignal, ...keepAliveMiddleware(input.model, input.generation)],
+      });
+
+      for await (const chunk of stream) {
+        reply += chunk.text;
+        sendChunk(chunk.text);
+      }
+      reply = (await response).text;
+    } catch (error) {
+      if (!abortSignal.aborted) {
+        console.error('Error answering question:', error);
+        throw toExtractionError(error, input.model);
+      }
+      console.log(`Chat with ${input.model} cancelled`);
+    }
+
+    return {
+      reply,
+      metadata: {
+        model: input.model,
+        processingTime: Date.now() - startTime,
+        cancelled: abortSignal.aborted || undefined,
+      },
+    };
+  }
+);
@@ -0,0 +1,45 @@
+import type { ModelMiddlewareWithOptions } from 'genkit/model';
+import { setKeepAlive } from '../ollama';
+
+/**
+ * Stops a streaming model call once its abort signal fires.
+ *
+ * genkitx-ollama doesn't hand the abort signal to fetch, so the request would
+ * keep the GPU busy until the model finished. Throwing from the chunk callback
+ * makes the plugin cancel the response body, which closes the connection and
+ * lets Ollama stop generating. Before the first chunk arrives (while the image
+ * is still being encoded) the call can only be stopped once it starts streaming.
+ */
+export const abortOnSignal: ModelMiddlewareWithOptions = async (req, options, next) => {
+  const signal = options?.abortSignal;
+  signal?.throwIfAborted();
+  if (!signal || !options?.onChunk) {
+    return next(req, options);
+  }
+
+  const { onChunk } = options;
+  return next(req, {
+    ...options,
+    onChunk: chunk => {
+      signal.throwIfAborted();
+      onChunk(chunk);
+    },
+  });
+};
+
+/**
+ * Applies a keep-alive duration once a model call has finished.
+ *
+ * genkitx-ollama has no way to send keep_alive with the request itself, so
+ * Ollama would fall back to its default (5 minutes) after every call. A failed
+ * update only costs a reload later, so it doesn't fail the extraction.
+ */
+export function keepModelLoaded(model: string, keepAlive: string): ModelMiddlewareWithOptions {
+  return async (req, options, next) => {
+    const response = await next(req, options);
+    await setKeepAlive(model, keepAlive).catch(error => {
+      console.warn(`Could not set keep-alive of ${model} to ${keepAlive}:`, error);
+    });
+    return response;
+  };
+}
@@ -0,0 +1,154 @@
+import { toJsonSchema } from 'genkit/schema';
+import { imageExtractionInputSchema, imageExtractionOutputSchema } from './flows';
+import { EXTRACTION_OPTION_FIELDS, JSON_OPTION_FIELDS, IMAGE_FIELD } from './api';
+import { EXTRACTION_ERRORS, EXTRACTION_ERROR_CODES } from '../errors';
+
+type JsonSchema = Record<string, unknown>;
+
+export const API_VERSION = '1.0.0';
+
+// zod-to-json-schema points repeated parts at the root; move them under the component
+function asComponent(schema: JsonSchema, name: string): JsonSchema {
+  const { $schema: _schema, ...rest } = schema;
+  return JSON.parse(JSON.stringify(rest).replace(/"\$ref":"#\//g, `"$ref":"#/components/schemas/${name}/`));
+}
+
+const errorSchema: JsonSchema = {
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: {
+      type: 'object',
+      required: ['status', 'message'],
+      properties: {
+        status: { type: 'string', description: 'Genkit status name, e.g. INVALID_ARGUMENT' },
+        code: { type: 'string', enum: [...EXTRACTION_ERROR_CODES], description: 'Cause of the failure, when it is known' },
+        message: { type: 'string' },
+        hint: { type: 'string', description: 'How to recover from the failure' },
+      },
+    },
+  },
+};
+
+function errorResponses(): Record<string, unknown> {
+  const responses: Record<string, { description: string; content: unknown }> = {};
+  const add = (status: number, description: string) => {
+    responses[status] = {
+      description: responses[status] ? `${responses[status].description}; ${description}` : description,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+    };
+  };
+  add(400, 'Invalid options or no image');
+  add(401, 'Missing or invalid API key');
+  for (const code of EXTRACTION_ERROR_CODES) {
+    add(EXTRACTION_ERRORS[code].httpStatus, `${code}: ${EXTRACTION_ERRORS[code].title}`);
+  }
+  add(500, 'Unexpected failure');
+  return responses;
+}
+
+/**
+ * OpenAPI 3.1 description of the v1 API, generated from the flow schemas so
+ * it can't drift from what the endpoint accepts.
+ */
+export function buildOpenApiDocument(serverUrl?: string): JsonSchema {
+  // The flow input without the image, which is uploaded instead
+  const flowInput = asComponent(toJsonSchema({ schema: imageExtractionInputSchema }) as JsonSchema, 'ExtractionOptions') as {
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  const options = Object.fromEntries(EXTRACTION_OPTION_FIELDS.map(field => [field, flowInput.properties[field]]));
+  const required = flowInput.required?.filter(field => field in options) ?? [];
+
+  const queryParameters = EXTRACTION_OPTION_FIELDS.map(field => {
+    const { description, ...schema } = options[field];
+    return {
+      name: field,
+      in: 'query',
+      required: false,
+      description,
+      ...(JSON_OPTION_FIELDS.includes(field) ? { content: { 'application/json': { schema } } } : { schema }),
+    };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Vision Text Extractor API',
+      version: API_VERSION,
+      description: 'Extracts text from images with vision models served by Ollama.',
+    },
+    servers: serverUrl ? [{ url: serverUrl }] : undefined,
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      '/api/v1/extract': {
+        post: {
+          operationId: 'extractText',
+          summary: 'Extract text from an image',
+          description: [
+            'Upload the image as multipart/form-data with the options as form fields, or send the raw image as the body with the options as query parameters.',
+            'Object options (jsonSchema, preprocessing, generation) are JSON strings.',
+            'Form fields take precedence over query parameters.',
+            'Add `stream=true` or `Accept: text/event-stream` to receive Server-Sent Events: `chunk` events with `{"text": ...}` while the model writes, then one `result` event with the response body or one `error` event with the error body.',
+            'Closing the connection cancels the extraction.',
+          ].join(' '),
+          parameters: [
+            {
+              name: 'stream',
+              in: 'query',
+              required: false,
+              description: 'Stream the response as Server-Sent Events',
+              schema: { type: 'boolean' },
+            },
+            ...queryParameters,
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: [IMAGE_FIELD, ...required],
+                  properties: {
+                    [IMAGE_FIELD]: { type: 'string', format: 'binary', description: 'The image file' },
+                    ...options,
+                  },
+                },
+                encoding: Object.fromEntries(JSON_OPTION_FIELDS.map(field => [field, { contentType: 'application/json' }])),
+              },
+              'image/*': { schema: { type: 'string', format: 'binary' } },
+              'application/octet-stream': { schema: { type: 'string', format: 'binary' } },
+            },
+          },
+          responses: {
+            200: {
+              description: 'The extracted text and metadata',
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/ExtractionResponse' } },
+                'text/event-stream': {
+                  schema: { type: 'string', description: '`chunk` events, then one `result` or `error` event' },
+                },
+              },
+            },
+            ...errorResponses(),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        ExtractionOptions: { ...flowInput, properties: options, required },
+        ExtractionResponse: asComponent(toJsonSchema({ schema: imageExtractionOutputSchema }) as JsonSchema, 'ExtractionResponse'),
+        Error: errorSchema,
+      },
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'One of the keys in API_KEYS; not required when API_KEYS is unset',
+        },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import path from 'path';
+import { ai, PROMPT_DIR } from './config';
+import type { PromptTemplate, TemplateVariable } from '../prompts';
+
+const OUTPUT_FORMATS = ['text', 'markdown'] as const;
+
+// Picoschema fields look like `name?: string, description`
+function toTemplateVariables(schema: unknown, defaults: Record<string, unknown> = {}): TemplateVariable[] {
+  if (!schema || typeof schema !== 'object') return [];
+  return Object.entries(schema).map(([key, type]) => {
+    const name = key.replace(/\?$/, '').replace(/\(.*\)$/, '');
+    const description = typeof type === 'string' && type.includes(',') ? type.slice(type.indexOf(',') + 1).trim() : undefined;
+    const defaultValue = defaults[name] === undefined ? undefined : String(defaults[name]);
+    return { name, description, defaultValue };
+  });
+}
+
+function labelFromFileName(name: string): string {
+  return name.replace(/[-_]+/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
+
+/**
+ * Reads the shared templates from the dotprompt files Genkit loads at startup.
+ * App-specific settings use the `ocr.` frontmatter namespace, e.g.
+ * `ocr.label: Receipt/Invoice` and `ocr.outputFormat: markdown`.
+ */
+export async function loadPromptTemplates(dir = PROMPT_DIR): Promise<PromptTemplate[]> {
+  // A missing directory just means there are no shared templates
+  const files = await readdir(dir).catch(() => [] as string[]);
+  const templates: PromptTemplate[] = [];
+
+  for (const file of files.filter(file => file.endsWith('.prompt')).sort()) {
+    const filePath = path.join(dir, file);
+    const name = path.basename(file, '.prompt');
+    try {
+      const [source, { mtimeMs }] = await Promise.all([readFile(filePath, 'utf8'), stat(filePath)]);
+      const parsed = ai.registry.dotprompt.parse(source);
+      const ext = (parsed.ext?.ocr ?? {}) as Record<string, unknown>;
+      const outputFormat = OUTPUT_FORMATS.find(format => format === ext.outputFormat);
+
+      templates.push({
+        id: `server:${name}`,
+        name: typeof ext.label === 'string' ? ext.label : labelFromFileName(name),
+        description: parsed.description,
+        template: parsed.template.trim(),
+        variables: toTemplateVariables(parsed.input?.schema, parsed.input?.default),
+        defaultModel: parsed.model?.replace(/^ollama\//, ''),
+        outputFormat,
+        versions: [],
+        updatedAt: mtimeMs,
+        source: 'server',
+      });
+    } catch (error) {
+      // One broken file shouldn't hide the rest of the library
+      console.warn(`Skipping prompt template ${file}:`, error);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Finds a shared template by its file name, e.g. `receipt`, or its label.
+ */
+export function findPromptTemplate(templates: PromptTemplate[], name: string): PromptTemplate | undefined {
+  const wanted = name.toLowerCase();
+  return templates.find(template => template.id.toLowerCase() === `server:${wanted}` || template.name.toLowerCase() === wanted);
+}
@@ -0,0 +1,41 @@
+import { appRoute, NextResponse, type NextRequest } from '@genkit-ai/next';
+
+const STREAM_ERROR_PREFIX = 'error: ';
+
+/**
+ * appRoute, with streamed errors framed so the Genkit client can read them.
+ *
+ * @genkit-ai/next writes a failed stream as an `error:` line, which
+ * streamFlow takes for a text chunk and then waits on forever. Rewriting it as
+ * a `data: {"error": ...}` frame makes streamFlow reject with the status,
+ * message and details (which carry the extraction error code).
+ */
+export function flowRoute(action: Parameters<typeof appRoute>[0]) {
+  const handler = appRoute(action);
+
+  return async (req: NextRequest) => {
+    const response = await handler(req);
+    if (!response.body || !response.headers.get('content-type')?.startsWith('text/event-stream')) {
+      return response;
+    }
+
+    const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
+    // appRoute writes every frame in a single chunk, so frames are never split
+    const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        const frame = decoder.decode(chunk);
+        if (!frame.startsWith(STREAM_ERROR_PREFIX)) {
+          controller.enqueue(chunk);
+          return;
+        }
+        const { details, ...error } = JSON.parse(frame.slice(STREAM_ERROR_PREFIX.length));
+        // The client prints details as text, so send them as JSON
+        const wrapped = { ...error, details: details === undefined ? '' : JSON.stringify(details) };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: wrapped })}\n\n`));
+      },
+    }));
+
+    return new NextResponse(body, { status: response.status, headers: response.headers });
+  };
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { tablesSchema, findColumnMismatch, type TableData } from '../tables';
+
+export interface ExtractionSchemaDefinition {
+  id: string;
+  label: string;
+  description: string;
+  schema: z.ZodTypeAny;
+  /**
+   * Checks the JSON Schema can't express. Returns the problem, which is sent
+   * back to the model in a repair attempt, or undefined if the data is fine.
+   * Runs after the data has been parsed with `schema`.
+   */
+  validate?: (data: unknown) => string | undefined;
+}
+
+const invoiceSchema = z.object({
+  vendorName: z.string().nullable().describe('Name of the company or person issuing the invoice'),
+  vendorAddress: z.string().nullable().describe('Postal address of the vendor'),
+  invoiceNumber: z.string().nullable().describe('Invoice or receipt number'),
+  invoiceDate: z.string().nullable().describe('Date the invoice was issued, as written on the document'),
+  dueDate: z.string().nullable().describe('Payment due date, as written on the document'),
+  currency: z.string().nullable().describe('Currency code or symbol, e.g. USD or €'),
+  lineItems: z.array(z.object({
+    description: z.string().describe('Item or service description'),
+    quantity: z.number().nullable(),
+    unitPrice: z.number().nullable(),
+    amount: z.number().nullable().describe('Line total'),
+  })).describe('Individual items listed on the invoice'),
+  subtotal: z.number().nullable(),
+  tax: z.number().nullable(),
+  total: z.number().nullable().describe('Final amount due'),
+});
+
+const idCardSchema = z.object({
+  documentType: z.string().nullable().describe('Kind of document, e.g. passport, driver license, national ID'),
+  fullName: z.string().nullable(),
+  dateOfBirth: z.string().nullable().describe('Date of birth, as written on the document'),
+  documentNumber: z.string().nullable(),
+  nationality: z.string().nullable(),
+  issueDate: z.string().nullable(),
+  expiryDate: z.string().nullable(),
+  issuingAuthority: z.string().nullable(),
+  address: z.string().nullable(),
+});
+
+const formFieldsSchema = z.object({
+  formTitle: z.string().nullable().describe('Title or heading of the form'),
+  fields: z.array(z.object({
+    label: z.string().describe('Field label as printed on the form'),
+    value: z.string().nullable().describe('Filled-in value, or null if empty'),
+    fieldType: z.enum(['text', 'checkbox', 'date', 'signature', 'other']),
+  })),
+});
+
+// Built-in schemas offered in the UI for structured extraction
+export const EXTRACTION_SCHEMAS: ExtractionSchemaDefinition[] = [
+  {
+    id: 'invoice',
+    label: 'Invoice / Receipt',
+    description: 'Vendor, dates, line items and totals',
+    schema: invoiceSchema,
+  },
+  {
+    id: 'id-card',
+    label: 'ID Card',
+    description: 'Name, birth date, document number and validity',
+    schema: idCardSchema,
+  },
+  {
+    id: 'form-fields',
+    label: 'Form Fields',
+    description: 'Labels and filled-in values of a form',
+    schema: formFieldsSchema,
+  },
+  {
+    id: 'table',
+    label: 'Table',
+    description: 'Rows and cells of every table, exportable as CSV, TSV or XLSX',
+    schema: tablesSchema,
+    validate: data => findColumnMismatch(data as TableData),
+  },
+];
+
+export function getExtractionSchema(id: string): ExtractionSchemaDefinition | undefined {
+  return EXTRACTION_SCHEMAS.find(schema => schema.id === id);
+}
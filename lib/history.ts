@@ -0,0 +1,197 @@
+import type { TextSection } from './sections';
+import type { ConfidenceEstimate } from './confidence';
+import type { ChatMessage } from './chat';
+
+// Browser-only extraction history kept in IndexedDB so results survive reloads
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  fileName: string;
+  fileSize: number;
+  /** Small JPEG data URL; missing for PDFs and formats the browser can't decode. */
+  thumbnail?: string;
+  model: string;
+  prompt: string;
+  extractedText: string;
+  structuredData?: unknown;
+  sections?: TextSection[];
+  confidence?: ConfidenceEstimate;
+  metadata: Record<string, any>;
+  processingTime: number;
+  /** Follow-up questions about the image and their answers. */
+  chat?: ChatMessage[];
+}
+
+export interface HistoryFilters {
+  query: string;
+  model: string;
+  /** Inclusive bounds as yyyy-mm-dd strings from date inputs; empty means unbounded. */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = { query: '', model: '', from: '', to: '' };
+
+const DB_NAME = 'vision-extraction-history';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+// Original files are kept apart so listing entries doesn't load every image
+const FILES_STORE = 'files';
+
+const THUMBNAIL_SIZE = 160;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      db.createObjectStore(FILES_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function transaction<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await run(tx);
+  await done;
+  return result;
+}
+
+/**
+ * Stores a finished extraction together with its source file.
+ */
+export async function addHistoryEntry(
+  file: File,
+  entry: Omit<HistoryEntry, 'id' | 'createdAt' | 'fileName' | 'fileSize' | 'thumbnail'>
+): Promise<HistoryEntry> {
+  const saved: HistoryEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    fileName: file.name,
+    fileSize: file.size,
+    thumbnail: await createThumbnail(file),
+  };
+
+  await transaction([ENTRIES_STORE, FILES_STORE], 'readwrite', async tx => {
+    tx.objectStore(ENTRIES_STORE).put(saved);
+    tx.objectStore(FILES_STORE).put(file, saved.id);
+  });
+  return saved;
+}
+
+/**
+ * All entries, newest first.
+ */
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await transaction([ENTRIES_STORE], 'readonly', tx =>
+    promisify(tx.objectStore(ENTRIES_STORE).index('createdAt').getAll() as IDBRequest<HistoryEntry[]>)
+  );
+  return entries.reverse();
+}
+
+/**
+ * Saves later changes to an entry, e.g. a continued chat. Returns the updated
+ * entry, or undefined if it was deleted in the meantime.
+ */
+export async function updateHistoryEntry(
+  id: string,
+  changes: Partial<Pick<HistoryEntry, 'chat'>>
+): Promise<HistoryEntry | undefined> {
+  return transaction([ENTRIES_STORE], 'readwrite', async tx => {
+    const store = tx.objectStore(ENTRIES_STORE);
+    const entry = await promisify(store.get(id) as IDBRequest<HistoryEntry | undefined>);
+    if (!entry) return undefined;
+    const updated = { ...entry, ...changes };
+    store.put(updated);
+    return updated;
+  });
+}
+
+export async function getHistoryFile(id: string): Promise<File | undefined> {
+  return transaction([FILES_STORE], 'readonly', tx =>
+    promisify(tx.objectStore(FILES_STORE).get(id) as IDBRequest<File | undefined>)
+  );
+}
+
+export async function deleteHistoryEntries(ids: string[]): Promise<void> {
+  await transaction([ENTRIES_STORE, FILES_STORE], 'readwrite', async tx => {
+    for (const id of ids) {
+      tx.objectStore(ENTRIES_STORE).delete(id);
+      tx.objectStore(FILES_STORE).delete(id);
+    }
+  });
+}
+
+export async function clearHistory(): Promise<void> {
+  await transaction([ENTRIES_STORE, FILES_STORE], 'readwrite', async tx => {
+    tx.objectStore(ENTRIES_STORE).clear();
+    tx.objectStore(FILES_STORE).clear();
+  });
+}
+
+function startOfDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+/**
+ * Case-insensitive full-text match over file name, prompt and output, plus
+ * model and date filters. Every word of the query must appear somewhere.
+ */
+export function filterHistoryEntries(entries: HistoryEntry[], filters: HistoryFilters): HistoryEntry[] {
+  const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filters.from ? startOfDay(filters.from) : -Infinity;
+  const to = filters.to ? startOfDay(filters.to) + 24 * 60 * 60 * 1000 : Infinity;
+
+  return entries.filter(entry => {
+    if (filters.model && entry.model !== filters.model) return false;
+    if (entry.createdAt < from || entry.createdAt >= to) return false;
+    if (words.length === 0) return true;
+
+    const haystack = `${entry.fileName}\n${entry.prompt}\n${entry.extractedText}`.toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+// Downscaled JPEG preview; returns undefined when the browser can't decode the file
+async function createThumbnail(file: File): Promise<string | undefined> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,370 @@
+import { createHash, randomUUID } from 'crypto';
+import { readFile, writeFile, readdir, rename, stat, mkdir } from 'fs/promises';
+import { setTimeout as sleep } from 'timers/promises';
+import path from 'path';
+import { z } from 'zod';
+import { languageHintIdSchema } from './language';
+import { uniqueFileName } from './archive';
+import { parseExtractionError, EXTRACTION_ERROR_CODES } from './errors';
+import { isRequestWideError } from './genkit/errors';
+
+// Hot folders: a long-running watcher extracts every image dropped into the configured folders
+
+export const HOT_FOLDERS_CONFIG = process.env.HOT_FOLDERS_CONFIG || './hotfolders.json';
+
+export const hotFolderSchema = z.object({
+  name: z.string().min(1),
+  /** Folder the scanner writes to; only files directly inside it are picked up. */
+  input: z.string().min(1),
+  /** Where results are written; defaults to `<input>/output`. */
+  output: z.string().optional(),
+  /** Shared prompt template from the prompts directory, e.g. receipt. */
+  preset: z.string().optional(),
+  /** Values for the preset's placeholders. */
+  variables: z.record(z.string()).optional(),
+  /** Overrides the preset's prompt. */
+  prompt: z.string().optional(),
+  /** Required unless the preset has a default model. */
+  model: z.string().optional(),
+  outputFormat: z.enum(['text', 'json', 'markdown']).optional(),
+  language: languageHintIdSchema.optional(),
+});
+
+export const hotFolderConfigSchema = z.object({
+  folders: z.array(hotFolderSchema).min(1),
+  pollIntervalSeconds: z.number().min(1).default(5),
+  /** Holds the ledger of processed files and the status shown in the app. */
+  stateDir: z.string().default('.hotfolder'),
+});
+
+export type HotFolder = z.infer<typeof hotFolderSchema>;
+export type HotFolderConfig = z.infer<typeof hotFolderConfigSchema>;
+
+export const hotFolderActivitySchema = z.object({
+  folder: z.string(),
+  fileName: z.string(),
+  /** Skipped files were already processed, e.g. before a restart, and only moved to done. */
+  status: z.enum(['done', 'failed', 'skipped']),
+  finishedAt: z.number(),
+  processingTime: z.number().optional(),
+  output: z.string().optional().describe('Path of the result file'),
+  preview: z.string().optional().describe('Start of the extracted text'),
+  /** The file was saved but only partly extracted, e.g. some PDF pages failed. */
+  warning: z.string().optional(),
+  error: z.string().optional(),
+  errorCode: z.enum(EXTRACTION_ERROR_CODES).optional(),
+});
+
+export const hotFolderStatusSchema = z.object({
+  pid: z.number(),
+  startedAt: z.number(),
+  /** Rewritten every poll interval while the watcher runs. */
+  updatedAt: z.number(),
+  stoppedAt: z.number().optional(),
+  pollIntervalSeconds: z.number(),
+  folders: z.array(z.object({
+    name: z.string(),
+    input: z.string(),
+    output: z.string(),
+    model: z.string(),
+    preset: z.string().optional(),
+    outputFormat: z.enum(['text', 'json', 'markdown']),
+    /** Files waiting in the input folder. */
+    pending: z.number(),
+    processing: z.string().optional(),
+    processed: z.number(),
+    failed: z.number(),
+    lastError: z.string().optional(),
+  })),
+  /** Latest files, newest first. */
+  recent: z.array(hotFolderActivitySchema),
+});
+
+export type HotFolderActivity = z.infer<typeof hotFolderActivitySchema>;
+export type HotFolderStatus = z.infer<typeof hotFolderStatusSchema>;
+
+/** A folder with its preset applied, so the prompt and model are known. */
+export type ResolvedHotFolder = HotFolder & Required<Pick<HotFolder, 'output' | 'prompt' | 'model' | 'outputFormat'>>;
+
+export type HotFolderProcessor = (
+  job: { folder: ResolvedHotFolder; fileName: string; data: Buffer },
+  signal: AbortSignal
+) => Promise<{
+  text: string;
+  /** Set when the file was only partly extracted, e.g. some pages of a PDF failed. */
+  warning?: string;
+}>;
+
+const SUPPORTED_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp', '.tif', '.tiff', '.heic', '.heif', '.avif', '.pdf'];
+const MAX_RECENT = 50;
+const MAX_LEDGER_ENTRIES = 10000;
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Reads and validates the config file. Folder paths are relative to the
+ * config file; the output folder defaults to `<input>/output`.
+ */
+export async function loadHotFolderConfig(configPath = HOT_FOLDERS_CONFIG): Promise<HotFolderConfig> {
+  const result = hotFolderConfigSchema.safeParse(JSON.parse(await readFile(configPath, 'utf8')));
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+    throw new Error(`Invalid hot folder config ${configPath} (${problems.slice(0, 3).join('; ')})`);
+  }
+
+  const base = path.dirname(path.resolve(configPath));
+  const names = result.data.folders.map(folder => folder.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new Error(`Invalid hot folder config ${configPath} (two folders are named ${duplicate})`);
+  }
+  return {
+    ...result.data,
+    stateDir: path.resolve(base, result.data.stateDir),
+    folders: result.data.folders.map(folder => {
+      const input = path.resolve(base, folder.input);
+      return { ...folder, input, output: folder.output ? path.resolve(base, folder.output) : path.join(input, 'output') };
+    }),
+  };
+}
+
+/**
+ * Status written by a running watcher, with whether it is still alive. A
+ * watcher that stopped writing for three poll intervals counts as stopped.
+ */
+export async function readHotFolderStatus(configPath = HOT_FOLDERS_CONFIG): Promise<{
+  configured: boolean;
+  running: boolean;
+  status?: HotFolderStatus;
+  error?: string;
+}> {
+  let config: HotFolderConfig;
+  try {
+    config = await loadHotFolderConfig(configPath);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') return { configured: false, running: false };
+    return { configured: true, running: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const status = await readFile(path.join(config.stateDir, 'status.json'), 'utf8')
+    .then(text => hotFolderStatusSchema.parse(JSON.parse(text)))
+    .catch(() => undefined);
+  const running = !!status && !status.stoppedAt && Date.now() - status.updatedAt < status.pollIntervalSeconds * 3000;
+  return { configured: true, running, status };
+}
+
+// Write to a temporary file first, so a crash never leaves half a JSON file;
+// the heartbeat can save the status while a finished file saves it too
+async function writeJsonFile(file: string, data: unknown) {
+  const temporary = `${file}.${randomUUID()}.tmp`;
+  await writeFile(temporary, JSON.stringify(data, null, 2));
+  await rename(temporary, file);
+}
+
+// Moves a file into a folder without overwriting an earlier file of the same name
+async function moveInto(file: string, dir: string): Promise<string> {
+  const taken = new Set(await readdir(dir));
+  const target = path.join(dir, uniqueFileName(path.basename(file), taken));
+  await rename(file, target);
+  return target;
+}
+
+async function writeResult(folder: ResolvedHotFolder, fileName: string, text: string): Promise<string> {
+  const extension = folder.outputFormat === 'json' ? '.json' : '.txt';
+  const taken = new Set(await readdir(folder.output));
+  const target = path.join(folder.output, uniqueFileName(`${path.parse(fileName).name}${extension}`, taken));
+  await writeFile(target, text.endsWith('\n') ? text : `${text}\n`);
+  return target;
+}
+
+/**
+ * Watches the folders until the signal aborts. Every new file is extracted,
+ * its result written to the output folder and the original moved to `done/`
+ * or, with an `.error.txt` note, to `failed/`.
+ *
+ * Processed files are recorded by content hash in `ledger.json`, so a file
+ * that was already extracted, e.g. when the watcher stopped before moving it,
+ * is moved to `done/` without running again. Files still being written are
+ * left alone until their size and modification time stop changing.
+ */
+export async function runHotFolders(folders: ResolvedHotFolder[], config: HotFolderConfig, processor: HotFolderProcessor, signal: AbortSignal) {
+  const pollMs = config.pollIntervalSeconds * 1000;
+  const ledgerPath = path.join(config.stateDir, 'ledger.json');
+  const statusPath = path.join(config.stateDir, 'status.json');
+
+  await mkdir(config.stateDir, { recursive: true });
+  for (const folder of folders) {
+    for (const dir of [folder.input, folder.output, path.join(folder.input, 'done'), path.join(folder.input, 'failed')]) {
+      await mkdir(dir, { recursive: true });
+    }
+  }
+
+  const ledger: Record<string, { folder: string; fileName: string; output: string; finishedAt: number }> =
+    await readFile(ledgerPath, 'utf8').then(JSON.parse).catch(() => ({}));
+
+  // Recent files from the previous run stay listed in the app after a restart
+  const previousStatus = await readFile(statusPath, 'utf8')
+    .then(text => hotFolderStatusSchema.parse(JSON.parse(text)))
+    .catch(() => undefined);
+
+  const status: HotFolderStatus = {
+    pid: process.pid,
+    startedAt: Date.now(),
+    updatedAt: Date.now(),
+    pollIntervalSeconds: config.pollIntervalSeconds,
+    folders: folders.map(folder => ({
+      name: folder.name,
+      input: folder.input,
+      output: folder.output,
+      model: folder.model,
+      preset: folder.preset,
+      outputFormat: folder.outputFormat,
+      pending: 0,
+      processed: 0,
+      failed: 0,
+    })),
+    recent: previousStatus?.recent ?? [],
+  };
+
+  const saveStatus = async () => {
+    status.updatedAt = Date.now();
+    await writeJsonFile(statusPath, status).catch(error => console.error('Failed to write hot folder status:', error));
+  };
+  const record = (activity: HotFolderActivity) => {
+    status.recent = [activity, ...status.recent].slice(0, MAX_RECENT);
+  };
+  // Long extractions don't block the heartbeat the app uses to tell the watcher is alive
+  const heartbeat = setInterval(saveStatus, pollMs);
+
+  // Size and modification time from the previous poll, to spot files still being written
+  const lastSeen = new Map<string, string>();
+
+  /**
+   * Extracts one file. Resolves to 'stop' when the remaining files of the
+   * folder should wait for the next poll (Ollama down, model missing or the
+   * watcher stopping) and to 'kept' when the file could not even be moved.
+   */
+  const processFile = async (
+    folder: ResolvedHotFolder,
+    folderStatus: HotFolderStatus['folders'][number],
+    fileName: string
+  ): Promise<'handled' | 'kept' | 'stop'> => {
+    const file = path.join(folder.input, fileName);
+    const startTime = Date.now();
+
+    folderStatus.processing = fileName;
+    await saveStatus();
+    try {
+      const data = await readFile(file);
+      const hash = createHash('sha256').update(data).digest('hex');
+
+      const previous = ledger[hash];
+      if (previous) {
+        await moveInto(file, path.join(folder.input, 'done'));
+        console.log(`[${folder.name}] ${fileName} was already processed, moved to done`);
+        record({ folder: folder.name, fileName, status: 'skipped', finishedAt: Date.now(), output: previous.output });
+        return 'handled';
+      }
+
+      const { text, warning } = await processor({ folder, fileName, data }, signal);
+      const output = await writeResult(folder, fileName, text);
+
+      ledger[hash] = { folder: folder.name, fileName, output, finishedAt: Date.now() };
+      const hashes = Object.keys(ledger);
+      for (const old of hashes.slice(0, Math.max(0, hashes.length - MAX_LEDGER_ENTRIES))) delete ledger[old];
+      await writeJsonFile(ledgerPath, ledger);
+      await moveInto(file, path.join(folder.input, 'done'));
+
+      console.log(`[${folder.name}] ${fileName} -> ${output}`);
+      if (warning) console.warn(`[${folder.name}] ${fileName}: ${warning}`);
+      folderStatus.processed++;
+      folderStatus.lastError = warning ? `${fileName}: ${warning}` : undefined;
+      record({
+        folder: folder.name,
+        fileName,
+        status: 'done',
+        finishedAt: Date.now(),
+        processingTime: Date.now() - startTime,
+        output,
+        preview: text.slice(0, PREVIEW_LENGTH),
+        warning,
+      });
+      return 'handled';
+    } catch (error) {
+      // A stopped watcher leaves the file for the next start
+      if (signal.aborted) return 'stop';
+
+      const { code, message } = parseExtractionError(error, 'Failed to extract text');
+      console.error(`[${folder.name}] ${fileName}: ${message}`);
+      folderStatus.lastError = message;
+      // The same failure would repeat for every file, so this one stays and is retried
+      if (isRequestWideError(error)) return 'stop';
+
+      try {
+        const moved = await moveInto(file, path.join(folder.input, 'failed'));
+        await writeFile(`${moved}.error.txt`, `${code ? `${code}: ` : ''}${message}\n`);
+      } catch (moveError) {
+        // Left in place and tried again next poll, without holding up the files after it
+        console.error(`[${folder.name}] Cannot move ${fileName} to failed:`, moveError);
+        folderStatus.lastError = `${fileName}: ${message}; the file could not be moved to failed`;
+        return 'kept';
+      }
+      folderStatus.failed++;
+      record({
+        folder: folder.name,
+        fileName,
+        status: 'failed',
+        finishedAt: Date.now(),
+        processingTime: Date.now() - startTime,
+        error: message,
+        errorCode: code,
+      });
+      return 'handled';
+    } finally {
+      folderStatus.processing = undefined;
+      await saveStatus();
+    }
+  };
+
+  try {
+    while (!signal.aborted) {
+      for (const [i, folder] of folders.entries()) {
+        const folderStatus = status.folders[i];
+        const entries = await readdir(folder.input, { withFileTypes: true }).catch(error => {
+          folderStatus.lastError = `Cannot read ${folder.input}: ${error.message}`;
+          return [];
+        });
+        const candidates = entries
+          .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+          .map(entry => entry.name)
+          .filter(name => SUPPORTED_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+          .sort();
+        folderStatus.pending = candidates.length;
+
+        for (const fileName of candidates) {
+          if (signal.aborted) break;
+          const file = path.join(folder.input, fileName);
+          const info = await stat(file).catch(() => null);
+          if (!info) continue;
+
+          const fingerprint = `${info.size}:${info.mtimeMs}`;
+          const stable = info.size > 0 && lastSeen.get(file) === fingerprint;
+          lastSeen.set(file, fingerprint);
+          if (!stable) continue;
+
+          lastSeen.delete(file);
+          const outcome = await processFile(folder, folderStatus, fileName);
+          if (outcome === 'handled') folderStatus.pending--;
+          // Ollama is down or the model is missing; try again on the next poll
+          if (outcome === 'stop') break;
+        }
+      }
+
+      await saveStatus();
+      await sleep(pollMs, undefined, { signal }).catch(() => undefined);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    status.stoppedAt = Date.now();
+    await saveStatus();
+  }
+}
@@ -0,0 +1,263 @@
+import sharp, { type Sharp } from 'sharp';
+import decodeBmp from 'decode-bmp';
+import { getModelInputResolution, type PreprocessingStep } from './preprocessing';
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'tiff' | 'heic' | 'avif';
+
+export type ImageErrorCode = 'UNSUPPORTED_FORMAT' | 'CORRUPT_IMAGE';
+
+/**
+ * Raised when an upload is not an image we can detect, decode or convert.
+ */
+export class ImageFormatError extends Error {
+  constructor(public readonly code: ImageErrorCode, message: string) {
+    super(message);
+    this.name = 'ImageFormatError';
+  }
+}
+
+export interface NormalizedImage {
+  data: Buffer;
+  contentType: string;
+  format: ImageFormat;
+  /** Original format when the image had to be converted. */
+  convertedFrom?: ImageFormat;
+}
+
+// Formats Ollama vision models decode reliably; everything else is converted to PNG
+const NATIVE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+  heic: 'image/heic',
+  avif: 'image/avif',
+};
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+function startsWith(data: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+function ascii(data: Buffer, start: number, end: number): string {
+  return data.subarray(start, end).toString('latin1');
+}
+
+/**
+ * Detects the image format from its magic bytes, ignoring any declared MIME type.
+ */
+export function detectImageFormat(data: Buffer): ImageFormat | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (ascii(data, 0, 6) === 'GIF87a' || ascii(data, 0, 6) === 'GIF89a') return 'gif';
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(data, 0, 2) === 'BM') return 'bmp';
+  if (startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+
+  // ISO-BMFF container: check the major brand, then the compatible brands
+  if (ascii(data, 4, 8) === 'ftyp') {
+    const boxSize = Math.min(data.readUInt32BE(0), data.length);
+    const brands = [ascii(data, 8, 12)];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+      brands.push(ascii(data, offset, offset + 4));
+    }
+    if (brands.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+    if (brands.some(brand => HEIC_BRANDS.includes(brand))) return 'heic';
+  }
+
+  return null;
+}
+
+// sharp has no BMP or HEVC decoder, so decode those to raw RGBA first
+async function decodeToSharp(data: Buffer, format: ImageFormat): Promise<Sharp> {
+  if (format === 'bmp') {
+    const bitmap = decodeBmp(data);
+    return sharp(Buffer.from(bitmap.data.buffer, bitmap.data.byteOffset, bitmap.data.byteLength), {
+      raw: { width: bitmap.width, height: bitmap.height, channels: 4 },
+    });
+  }
+
+  if (format === 'heic') {
+    const { default: decodeHeic } = await import('heic-decode');
+    const image = await decodeHeic({ buffer: data });
+    return sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength), {
+      raw: { width: image.width, height: image.height, channels: 4 },
+    });
+  }
+
+  // For animated GIFs and multi-page TIFFs only the first frame is used
+  return sharp(data, { pages: 1, failOn: 'truncated' });
+}
+
+/**
+ * Sniffs the real image format and converts formats vision models handle
+ * poorly (GIF, BMP, TIFF, HEIC, AVIF) to PNG.
+ */
+export async function normalizeImage(data: Buffer): Promise<NormalizedImage> {
+  const format = detectImageFormat(data);
+  if (!format) {
+    throw new ImageFormatError(
+      'UNSUPPORTED_FORMAT',
+      'Unsupported image format. Use PNG, JPEG, WebP, GIF, BMP, TIFF, HEIC or AVIF.'
+    );
+  }
+
+  try {
+    if (NATIVE_FORMATS.includes(format)) {
+      // The header alone reads fine for a truncated file, so decode every pixel
+      await sharp(data, { failOn: 'truncated' }).stats();
+      return { data, contentType: CONTENT_TYPES[format], format };
+    }
+
+    const image = await decodeToSharp(data, format);
+    const converted = await image.png().toBuffer();
+    console.log(`Converted ${format.toUpperCase()} image to PNG`);
+
+    return { data: converted, contentType: CONTENT_TYPES.png, format: 'png', convertedFrom: format };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ImageFormatError('CORRUPT_IMAGE', `The ${format.toUpperCase()} image could not be decoded: ${reason}`);
+  }
+}
+
+export interface PreprocessedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  /** Steps as applied, with detected values such as the deskew angle filled in. */
+  applied: PreprocessingStep[];
+}
+
+// Angle resolution and default search range for skew detection
+const DESKEW_STEP_DEGREES = 0.25;
+const DEFAULT_MAX_SKEW_DEGREES = 10;
+
+/**
+ * Estimates text skew with a projection profile: text lines produce the
+ * sharpest row histogram when projected at the angle they are tilted by.
+ */
+async function detectSkewAngle(image: Sharp, maxAngle: number): Promise<number> {
+  const { data, info } = await image
+    .clone()
+    .grayscale()
+    .resize({ width: 800, height: 800, fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      if (data[y * info.width + x] < 128) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  const offset = info.width;
+  const bins = new Float64Array(info.width + info.height * 2);
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -maxAngle; angle <= maxAngle; angle += DESKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    }
+
+    let score = 0;
+    for (const count of bins) score += count * count;
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+}
+
+// sharp applies operations in a fixed order, so materialize the image after every step
+async function materialize(image: Sharp): Promise<Sharp> {
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+}
+
+/**
+ * Applies preprocessing steps in order and returns the result as PNG.
+ * EXIF orientation is always applied first so crops match what the browser shows.
+ */
+export async function applyPreprocessing(
+  data: Buffer,
+  steps: PreprocessingStep[],
+  model: string
+): Promise<PreprocessedImage> {
+  let image = await materialize(sharp(data).rotate());
+  const applied: PreprocessingStep[] = [];
+
+  for (const step of steps) {
+    const { width = 0, height = 0 } = await image.metadata();
+
+    switch (step.type) {
+      case 'rotate':
+        image = image.rotate(step.angle, { background: '#ffffff' });
+        applied.push(step);
+        break;
+      case 'deskew': {
+        const angle = await detectSkewAngle(image, step.maxAngle ?? DEFAULT_MAX_SKEW_DEGREES);
+        if (angle !== 0) {
+          image = image.rotate(-angle, { background: '#ffffff' });
+        }
+        applied.push({ ...step, angle });
+        break;
+      }
+      case 'crop': {
+        const left = Math.min(Math.round(step.left * width), width - 1);
+        const top = Math.min(Math.round(step.top * height), height - 1);
+        image = image.extract({
+          left,
+          top,
+          width: Math.max(1, Math.min(Math.round(step.width * width), width - left)),
+          height: Math.max(1, Math.min(Math.round(step.height * height), height - top)),
+        });
+        applied.push(step);
+        break;
+      }
+      case 'grayscale':
+        image = image.grayscale();
+        applied.push(step);
+        break;
+      case 'contrast':
+        // Stretch around mid-gray so the overall brightness stays the same
+        image = image.linear(step.amount, 128 * (1 - step.amount));
+        applied.push(step);
+        break;
+      case 'threshold':
+        image = image.threshold(step.level);
+        applied.push(step);
+        break;
+      case 'resize': {
+        const maxDimension = step.maxDimension === 'auto' ? getModelInputResolution(model) : step.maxDimension;
+        image = image.resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true });
+        applied.push({ ...step, resolvedMaxDimension: maxDimension });
+        break;
+      }
+    }
+
+    image = await materialize(image);
+  }
+
+  const { data: output, info } = await image.png().toBuffer({ resolveWithObject: true });
+  return { data: output, width: info.width, height: info.height, applied };
+}
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export const SCRIPTS = [
+  'Latin', 'Cyrillic', 'Greek', 'Arabic', 'Hebrew', 'Devanagari', 'Thai', 'Han', 'Japanese', 'Hangul',
+] as const;
+
+export type Script = typeof SCRIPTS[number];
+
+const RTL_SCRIPTS: Script[] = ['Arabic', 'Hebrew'];
+
+export function scriptDirection(script: Script): TextDirection {
+  return RTL_SCRIPTS.includes(script) ? 'rtl' : 'ltr';
+}
+
+export interface LanguageHint {
+  /** BCP 47 tag, e.g. "ru" or "zh-Hant". */
+  id: string;
+  name: string;
+  script: Script;
+  /** Extra instructions for mistakes vision models tend to make with this language. */
+  notes?: string;
+}
+
+// Offered in the prompt settings; the notes turn every preset into a language-specific variant
+export const LANGUAGE_HINTS: LanguageHint[] = [
+  { id: 'en', name: 'English', script: 'Latin' },
+  { id: 'de', name: 'German', script: 'Latin', notes: 'Keep umlauts (ä, ö, ü) and ß.' },
+  { id: 'fr', name: 'French', script: 'Latin', notes: 'Keep accents, ç and the ligatures œ and æ.' },
+  { id: 'es', name: 'Spanish', script: 'Latin', notes: 'Keep accents, ñ and the inverted marks ¿ and ¡.' },
+  { id: 'pl', name: 'Polish', script: 'Latin', notes: 'Keep diacritics such as ą, ę, ł, ś and ż.' },
+  { id: 'tr', name: 'Turkish', script: 'Latin', notes: 'Keep dotted İ and dotless ı apart, and keep ğ, ş and ç.' },
+  { id: 'vi', name: 'Vietnamese', script: 'Latin', notes: 'Keep every tone mark; a missing mark changes the word.' },
+  {
+    id: 'ru', name: 'Russian', script: 'Cyrillic',
+    notes: 'Letters such as А, В, Е, Н, Р and С look like Latin letters but are Cyrillic; write them in Cyrillic.',
+  },
+  { id: 'uk', name: 'Ukrainian', script: 'Cyrillic', notes: 'Keep the letters і, ї, є and ґ; they are not Russian.' },
+  { id: 'el', name: 'Greek', script: 'Greek', notes: 'Keep accent marks and final sigma (ς).' },
+  {
+    id: 'ar', name: 'Arabic', script: 'Arabic',
+    notes: 'The text runs right to left. Write every line in reading order and keep the digits the image uses.',
+  },
+  {
+    id: 'fa', name: 'Persian', script: 'Arabic',
+    notes: 'The text runs right to left. Keep Persian letters such as پ, چ, ژ and گ and the zero-width non-joiner.',
+  },
+  {
+    id: 'he', name: 'Hebrew', script: 'Hebrew',
+    notes: 'The text runs right to left. Write every line in reading order; add vowel points only where the image has them.',
+  },
+  { id: 'hi', name: 'Hindi', script: 'Devanagari', notes: 'Keep conjunct consonants and vowel signs with their letters.' },
+  { id: 'th', name: 'Thai', script: 'Thai', notes: 'Thai has no spaces between words; do not add any.' },
+  {
+    id: 'zh-Hans', name: 'Chinese (Simplified)', script: 'Han',
+    notes: 'Use simplified characters and no spaces between them. Vertical text is read top to bottom, columns right to left.',
+  },
+  {
+    id: 'zh-Hant', name: 'Chinese (Traditional)', script: 'Han',
+    notes: 'Keep traditional characters; do not simplify them. Vertical text is read top to bottom, columns right to left.',
+  },
+  {
+    id: 'ja', name: 'Japanese', script: 'Japanese',
+    notes: 'Keep kanji, hiragana and katakana as written, without furigana readings. Vertical text is read top to bottom, columns right to left.',
+  },
+  { id: 'ko', name: 'Korean', script: 'Hangul', notes: 'Keep Hangul syllables as written; do not romanize them.' },
+];
+
+export function getLanguageHint(id: string): LanguageHint | undefined {
+  return LANGUAGE_HINTS.find(hint => hint.id === id);
+}
+
+// An enum rather than a refinement, so the flow's JSON Schema rejects unknown ids
+export const languageHintIdSchema = z.enum(LANGUAGE_HINTS.map(hint => hint.id) as [string, ...string[]]);
+
+const SCRIPT_LABELS: Partial<Record<Script, string>> = {
+  Han: 'Chinese (Han)',
+  Japanese: 'Japanese (kanji and kana)',
+};
+
+/**
+ * Tells the model which script to expect. Without it, small vision models
+ * often answer in Latin letters, transliterating or inventing the text.
+ */
+export function buildLanguageInstructions(hint: LanguageHint): string {
+  return [
+    `The text is in ${hint.name}, written in the ${SCRIPT_LABELS[hint.script] ?? hint.script} script.`,
+    hint.script === 'Latin'
+      ? 'Transcribe it exactly as written and do not translate it.'
+      : 'Transcribe it in that script exactly as written. Do not transliterate it into Latin letters and do not translate it.',
+    hint.notes,
+  ].filter(Boolean).join(' ');
+}
+
+export const detectedLanguageSchema = z.object({
+  script: z.enum(SCRIPTS).describe('Script most letters are written in'),
+  language: z.string().optional().describe('BCP 47 tag, when the text gives it away'),
+  direction: z.enum(['ltr', 'rtl']),
+  scriptShare: z.number().describe('Fraction of letters in the detected script'),
+});
+
+export type DetectedLanguage = z.infer<typeof detectedLanguageSchema>;
+
+// Japanese shares Han characters with Chinese; any kana decides between the two
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Arabic', /\p{Script=Arabic}/u],
+  ['Hebrew', /\p{Script=Hebrew}/u],
+  ['Devanagari', /\p{Script=Devanagari}/u],
+  ['Thai', /\p{Script=Thai}/u],
+  ['Han', /\p{Script=Han}/u],
+  ['Japanese', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['Hangul', /\p{Script=Hangul}/u],
+];
+
+// Below this, a handful of letters would decide the result
+const MIN_LETTERS = 3;
+
+// Frequent short words that are rare in the other languages of the list
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'with', 'for', 'this', 'that'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'ein', 'eine', 'für'],
+  fr: ['le', 'les', 'et', 'est', 'des', 'une', 'du', 'pour', 'avec', 'dans'],
+  es: ['el', 'los', 'las', 'que', 'es', 'por', 'una', 'con', 'para', 'del'],
+  it: ['il', 'che', 'di', 'non', 'per', 'gli', 'una', 'sono', 'della'],
+  pt: ['o', 'os', 'que', 'não', 'uma', 'com', 'para', 'do', 'da', 'em'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'niet', 'met', 'voor', 'zijn'],
+  pl: ['i', 'w', 'nie', 'się', 'na', 'że', 'jest', 'do', 'z'],
+  tr: ['ve', 'bir', 'bu', 'için', 'ile', 'da', 'de', 'değil'],
+  vi: ['và', 'của', 'là', 'có', 'không', 'được', 'cho', 'những'],
+};
+
+function guessLatinLanguage(text: string): string | undefined {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = Object.entries(LATIN_STOPWORDS)
+    .map(([language, stopwords]) => ({ language, hits: words.filter(word => stopwords.includes(word)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  // Require a clear winner; short or mixed text stays undetermined
+  return scores[0].hits >= 2 && scores[0].hits > scores[1].hits * 1.5 ? scores[0].language : undefined;
+}
+
+function countMatches(text: string, characters: string): number {
+  let count = 0;
+  for (const char of text) {
+    if (characters.includes(char)) count++;
+  }
+  return count;
+}
+
+function guessLanguage(script: Script, text: string): string | undefined {
+  switch (script) {
+    case 'Latin':
+      return guessLatinLanguage(text);
+    case 'Cyrillic': {
+      const ukrainian = countMatches(text, 'іїєґІЇЄҐ');
+      const russian = countMatches(text, 'ыэъёЫЭЪЁ');
+      return ukrainian > russian ? 'uk' : russian > 0 ? 'ru' : undefined;
+    }
+    case 'Arabic':
+      return countMatches(text, 'پچژگ') > 0 ? 'fa' : 'ar';
+    case 'Han': {
+      // Common characters whose simplified and traditional forms differ
+      const simplified = countMatches(text, '这们说为国对时会过还发经后见车东门马');
+      const traditional = countMatches(text, '這們說為國對時會過還發經後見車東門馬');
+      return simplified > traditional ? 'zh-Hans' : traditional > simplified ? 'zh-Hant' : 'zh';
+    }
+    case 'Japanese':
+      return 'ja';
+    case 'Hangul':
+      return 'ko';
+    case 'Greek':
+      return 'el';
+    case 'Hebrew':
+      return 'he';
+    case 'Thai':
+      return 'th';
+    case 'Devanagari':
+      return 'hi';
+  }
+}
+
+/**
+ * Finds the script most letters of the text are written in, and the language
+ * when the script or a few telltale letters and words give it away.
+ */
+export function detectLanguage(text: string): DetectedLanguage | undefined {
+  const counts = new Map<Script, number>();
+  let letters = 0;
+
+  for (const [char] of text.matchAll(/\p{L}/gu)) {
+    const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char));
+    if (!match) continue;
+    counts.set(match[0], (counts.get(match[0]) ?? 0) + 1);
+    letters++;
+  }
+  if (letters < MIN_LETTERS) return undefined;
+
+  // Kana mixed with Han is Japanese, whichever of the two is more frequent
+  const kana = counts.get('Japanese') ?? 0;
+  if (kana > 0) {
+    counts.set('Japanese', kana + (counts.get('Han') ?? 0));
+    counts.delete('Han');
+  }
+
+  const [script, count] = [...counts].sort((a, b) => b[1] - a[1])[0];
+  return {
+    script,
+    language: guessLanguage(script, text),
+    direction: scriptDirection(script),
+    scriptShare: Math.round((count / letters) * 100) / 100,
+  };
+}
@@ -0,0 +1,87 @@
+// Appended to the prompt when markdown output is requested
+export const MARKDOWN_INSTRUCTIONS = [
+  'Format the answer as GitHub-flavored Markdown that preserves the layout of the image:',
+  'use # headings for titles and section headings, - or 1. lists for list items,',
+  'pipe tables with a header row for tabular data, and keep the reading order.',
+  'Reply with the Markdown only: no code fence around it, no HTML and no comments about the image.',
+].join(' ');
+
+// Elements whose content is never text from the image
+const UNSAFE_ELEMENTS = /<(script|style|iframe|object|embed|svg|math)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const HTML_COMMENT = /<!--[\s\S]*?-->/g;
+const LINE_BREAK_TAG = /<br\s*\/?>/gi;
+const HTML_TAG = /<\/?[a-z][a-z0-9-]*\b[^>]*>/gi;
+// Links and images may only point to http(s), mailto or in-page anchors
+const UNSAFE_LINK = /(\]\(\s*)(?!https?:|mailto:|#)[a-z][a-z0-9+.-]*:[^()\s]*(?:\([^()]*\)[^()\s]*)*\)/gi;
+
+const FENCE = /^\s*(```|~~~)/;
+const WRAPPING_FENCE = /^\s*```(?:markdown|md)?[ \t]*\n([\s\S]*?)\n```\s*$/i;
+const THEMATIC_BREAK = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+function isTableRow(line: string): boolean {
+  return line.trimStart().startsWith('|');
+}
+
+function isHeading(line: string): boolean {
+  return /^#{1,6}\s/.test(line);
+}
+
+function normalizeLine(line: string): string {
+  if (THEMATIC_BREAK.test(line)) return line;
+  return line
+    // "#Title" is a paragraph in CommonMark
+    .replace(/^(#{1,6})(?=[^\s#])/, '$1 ')
+    // "•", "*" and "+" bullets all become "-"
+    .replace(/^(\s*)[•*+]\s+/, '$1- ');
+}
+
+/**
+ * Cleans up model-written markdown: unwraps an answer fenced as a whole,
+ * strips raw HTML and unsafe link targets, and evens out headings, bullets
+ * and blank lines so the same layout always renders the same way. Code
+ * blocks are kept as they are.
+ */
+export function normalizeMarkdown(markdown: string): string {
+  let text = markdown.replace(/\r\n?/g, '\n');
+  text = text.match(WRAPPING_FENCE)?.[1] ?? text;
+
+  const lines: string[] = [];
+  let inFence = false;
+
+  for (const rawLine of text.split('\n')) {
+    if (FENCE.test(rawLine)) {
+      inFence = !inFence;
+      lines.push(rawLine);
+      continue;
+    }
+    if (inFence) {
+      lines.push(rawLine);
+      continue;
+    }
+
+    // A line break inside a table cell would end the table
+    const line = normalizeLine(
+      rawLine
+        .replace(UNSAFE_ELEMENTS, '')
+        .replace(HTML_COMMENT, '')
+        .replace(LINE_BREAK_TAG, isTableRow(rawLine) ? ' ' : '\n')
+        .replace(HTML_TAG, '')
+        .replace(UNSAFE_LINK, '$1#)')
+        .trimEnd()
+    );
+
+    for (const part of line.split('\n')) {
+      const previous = lines[lines.length - 1];
+      // Headings and tables need a blank line after paragraph text to be recognized
+      const startsBlock = isHeading(part) || (isTableRow(part) && previous !== undefined && !isTableRow(previous));
+      if (startsBlock && previous) {
+        lines.push('');
+      }
+      // At most one blank line in a row
+      if (!part && !previous) continue;
+      lines.push(part);
+    }
+  }
+
+  return lines.join('\n').trim();
+}
@@ -1,19 +1,78 @@
+import { mapWithConcurrency } from './utils';
+
+const OLLAMA_SERVER_ADDRESS = process.env.OLLAMA_SERVER_ADDRESS || 'http://127.0.0.1:11434';
+
 export interface OllamaModel {
   name: string;
   model: string;
+  /** Size on disk in bytes. */
   size: number;
+  digest?: string;
+  modified_at?: string;
   details?: {
+    family?: string;
     families?: string[];
+    parameter_size?: string;
+    quantization_level?: string;
   };
 }
 
+export interface OllamaModelDetails {
+  family?: string;
+  format?: string;
+  parameterSize?: string;
+  /** Exact parameter count from the model file, when Ollama reports it. */
+  parameterCount?: number;
+  quantization?: string;
+  contextLength?: number;
+  /** Reported by Ollama 0.6.4 and later, e.g. ["completion", "vision"]. */
+  capabilities?: string[];
+  modifiedAt?: string;
+}
+
+// The parts of an /api/show response that are read here
+interface OllamaShowResponse {
+  /** Reported by Ollama 0.6.4 and later. */
+  capabilities?: string[];
+  projector_info?: Record<string, unknown>;
+  model_info?: Record<string, unknown>;
+  details?: {
+    family?: string;
+    families?: string[] | null;
+    format?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+  modified_at?: string;
+}
+
+export type VisionDetectionSource = 'capabilities' | 'projector' | 'families' | 'name';
+
+export interface VisionDetection {
+  capable: boolean;
+  source: VisionDetectionSource;
+  /** Why the model was (or wasn't) classified as vision-capable. */
+  reason: string;
+}
+
+export interface VisionModel extends OllamaModel {
+  vision: VisionDetection;
+}
+
+export interface PullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
 export interface OllamaStatus {
   isRunning: boolean;
   models: string[];
   error?: string;
 }
 
-// Known vision-capable model patterns
+// Known vision-capable model patterns, only used when /api/show gives no answer
 const VISION_MODEL_PATTERNS = [
   /^llava/i,
   /^bakllava/i,
@@ -28,56 +87,224 @@ const VISION_MODEL_PATTERNS = [
   /multimodal/i,
 ];
 
+// Number of /api/show requests made at once while classifying models
+const DETECTION_CONCURRENCY = 4;
+
+// Classifications by model digest; a digest only changes when the model does
+const visionDetectionCache = new Map<string, VisionDetection>();
+
 /**
- * Checks if a model supports vision capabilities based on its name and families.
+ * Guesses vision support from the model name, for when Ollama can't be asked.
  */
-function isVisionModel(model: OllamaModel): boolean {
-  // Check model name against patterns
-  const modelName = model.name.toLowerCase();
-  if (VISION_MODEL_PATTERNS.some(pattern => pattern.test(modelName))) {
-    return true;
-  }
-  
-  // Check model families if available
-  if (model.details?.families) {
-    const families = model.details.families.map(f => f.toLowerCase());
-    return families.includes('clip') || families.includes('vision');
-  }
-  
-  return false;
+function detectVisionFromName(model: OllamaModel): VisionDetection {
+  const pattern = VISION_MODEL_PATTERNS.find(pattern => pattern.test(model.name));
+  return pattern
+    ? { capable: true, source: 'name', reason: `Name matches ${pattern} (model metadata unavailable)` }
+    : { capable: false, source: 'name', reason: 'Name does not look like a vision model (model metadata unavailable)' };
 }
 
 /**
- * Checks the status of the Ollama server and lists available vision models.
+ * Classifies a model from its /api/show metadata. Newer Ollama versions list
+ * capabilities directly; older ones are recognised by a vision projector or
+ * vision tensors in the model info, or a clip family.
  */
-export async function checkOllamaStatus(): Promise<OllamaStatus> {
+function detectVisionFromMetadata(model: OllamaModel, data: OllamaShowResponse): VisionDetection {
+  if (Array.isArray(data.capabilities)) {
+    return data.capabilities.includes('vision')
+      ? { capable: true, source: 'capabilities', reason: 'Ollama reports the vision capability' }
+      : { capable: false, source: 'capabilities', reason: `Ollama reports only ${data.capabilities.join(', ') || 'no'} capabilities` };
+  }
+
+  if (data.projector_info) {
+    return { capable: true, source: 'projector', reason: 'Model has a vision projector' };
+  }
+  const visionKey = Object.keys(data.model_info ?? {}).find(key => key.includes('.vision.'));
+  if (visionKey) {
+    return { capable: true, source: 'projector', reason: `Model info contains vision tensors (${visionKey})` };
+  }
+
+  const families = (data.details?.families ?? model.details?.families ?? []).map(f => f.toLowerCase());
+  if (families.includes('clip') || families.includes('mllama')) {
+    return { capable: true, source: 'families', reason: `Model family includes ${families.includes('clip') ? 'clip' : 'mllama'}` };
+  }
+
+  return { capable: false, source: 'families', reason: 'No vision capability, projector or family in the model metadata' };
+}
+
+async function detectVision(model: OllamaModel): Promise<VisionDetection> {
+  const cached = model.digest && visionDetectionCache.get(model.digest);
+  if (cached) return cached;
+
+  let detection: VisionDetection;
   try {
-    const response = await fetch(
-      `${process.env.OLLAMA_SERVER_ADDRESS || 'http://127.0.0.1:11434'}/api/tags`,
-      { method: 'GET', signal: AbortSignal.timeout(5000) }
-    );
+    const response = await ollamaRequest('/api/show', { model: model.name }, { signal: AbortSignal.timeout(10000) });
+    detection = detectVisionFromMetadata(model, await response.json());
+  } catch (error) {
+    console.warn(`Could not read metadata of ${model.name}, guessing from its name:`, error);
+    // Not cached, so the next listing asks Ollama again
+    return detectVisionFromName(model);
+  }
 
-    if (!response.ok) {
-      throw new Error('Ollama server is not responding.');
-    }
+  if (model.digest) visionDetectionCache.set(model.digest, detection);
+  return detection;
+}
 
-    const data = await response.json();
-    
-    // Filter for vision-capable models
-    const visionModels = (data.models || [])
-      .filter((m: OllamaModel) => isVisionModel(m))
-      .map((m: OllamaModel) => m.name);
+/**
+ * Checks the status of the Ollama server and lists the installed vision
+ * models, from a single listing so callers that need both don't ask twice.
+ */
+export async function getVisionModelStatus(): Promise<{ status: OllamaStatus; models: VisionModel[] }> {
+  try {
+    const models = await listVisionModels();
 
     return {
-      isRunning: true,
-      models: visionModels,
+      status: { isRunning: true, models: models.map(m => m.name) },
+      models,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Cannot connect to Ollama.';
     return {
-      isRunning: false,
+      status: { isRunning: false, models: [], error: message },
       models: [],
-      error: message,
     };
   }
 }
+
+/**
+ * Checks the status of the Ollama server and lists available vision models.
+ */
+export async function checkOllamaStatus(): Promise<OllamaStatus> {
+  return (await getVisionModelStatus()).status;
+}
+
+/**
+ * Lists every installed model.
+ */
+export async function listModels(): Promise<OllamaModel[]> {
+  const response = await fetch(`${OLLAMA_SERVER_ADDRESS}/api/tags`, {
+    method: 'GET',
+    signal: AbortSignal.timeout(5000),
+  });
+
+  if (!response.ok) {
+    throw new Error('Ollama server is not responding.');
+  }
+
+  const data = await response.json();
+  return (data.models || []) as OllamaModel[];
+}
+
+/**
+ * Lists installed models that generate text, i.e. all but embedding models.
+ */
+export async function listTextModels(): Promise<OllamaModel[]> {
+  const models = await listModels();
+  return models.filter(model =>
+    !/embed/i.test(model.name) && !(model.details?.families ?? [model.details?.family]).some(family => family?.includes('bert'))
+  );
+}
+
+/**
+ * Lists installed vision-capable models with their size, details and the
+ * reason each one was classified as vision-capable.
+ */
+export async function listVisionModels(): Promise<VisionModel[]> {
+  const models = await listModels();
+  const classified = await mapWithConcurrency(models, DETECTION_CONCURRENCY, async model => ({
+    ...model,
+    vision: await detectVision(model),
+  }));
+  return classified.filter(model => model.vision.capable);
+}
+
+// Ollama answers failed requests with {"error": "..."}
+async function ollamaRequest(path: string, body: unknown, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(`${OLLAMA_SERVER_ADDRESS}${path}`, {
+    method: 'POST',
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Ollama returned ${response.status} for ${path}`);
+  }
+  return response;
+}
+
+/**
+ * Downloads a model, reporting Ollama's progress messages as they arrive.
+ */
+export async function pullModel(
+  model: string,
+  onProgress: (progress: PullProgress) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await ollamaRequest('/api/pull', { model, stream: true }, { signal });
+  if (!response.body) {
+    throw new Error('Ollama returned an empty response');
+  }
+
+  // The body is newline-delimited JSON; a line can be split across chunks
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) buffer += value;
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const progress = JSON.parse(line);
+        if (progress.error) {
+          throw new Error(progress.error);
+        }
+        onProgress(progress);
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+export async function deleteModel(model: string): Promise<void> {
+  await ollamaRequest('/api/delete', { model }, { method: 'DELETE' });
+}
+
+/**
+ * Sets how long a loaded model stays in memory. A generate request without a
+ * prompt only loads the model, and its keep_alive replaces the one of the
+ * request before.
+ */
+export async function setKeepAlive(model: string, keepAlive: string): Promise<void> {
+  // Ollama only accepts a duration without unit (seconds) as a JSON number
+  const duration = /^-?\d+(\.\d+)?$/.test(keepAlive) ? Number(keepAlive) : keepAlive;
+  await ollamaRequest('/api/generate', { model, keep_alive: duration, stream: false });
+}
+
+/**
+ * Reads a model's details from /api/show.
+ */
+export async function showModel(model: string): Promise<OllamaModelDetails> {
+  const response = await ollamaRequest('/api/show', { model }, { signal: AbortSignal.timeout(10000) });
+  const data: OllamaShowResponse = await response.json();
+  const info = data.model_info ?? {};
+  const architecture = info['general.architecture'];
+
+  return {
+    family: data.details?.family,
+    format: data.details?.format,
+    parameterSize: data.details?.parameter_size,
+    parameterCount: typeof info['general.parameter_count'] === 'number' ? info['general.parameter_count'] : undefined,
+    quantization: data.details?.quantization_level,
+    contextLength: typeof info[`${architecture}.context_length`] === 'number'
+      ? (info[`${architecture}.context_length`] as number)
+      : undefined,
+    capabilities: data.capabilities,
+    modifiedAt: data.modified_at,
+  };
+}
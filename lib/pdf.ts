@@ -0,0 +1,105 @@
+import path from 'node:path';
+import { createCanvas } from '@napi-rs/canvas';
+
+export interface RenderedPdfPage {
+  pageNumber: number;
+  pageCount: number;
+  imageBase64: string;
+  width: number;
+  height: number;
+}
+
+export interface RenderPdfOptions {
+  /** Render resolution in DPI (PDF user space is 72 DPI). */
+  dpi?: number;
+  /** Maximum number of pages to render, starting from the first. */
+  maxPages?: number;
+}
+
+// 150 DPI keeps scanned text legible without exceeding typical model input sizes
+const DEFAULT_DPI = 150;
+
+export const MAX_PDF_PAGES = Number(process.env.MAX_PDF_PAGES) || 50;
+
+/**
+ * Raised when a file has the PDF signature but pdf.js cannot parse or render it.
+ */
+export class PdfFormatError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'PdfFormatError';
+  }
+}
+
+const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Returns true if the data starts with the `%PDF-` signature.
+ */
+export function isPdf(data: Buffer): boolean {
+  return data.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+type PdfDocument = Awaited<ReturnType<typeof import('pdfjs-dist/legacy/build/pdf.mjs').getDocument>['promise']>;
+
+async function renderPage(document: PdfDocument, pageNumber: number, dpi: number) {
+  const page = await document.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: dpi / 72 });
+  const width = Math.ceil(viewport.width);
+  const height = Math.ceil(viewport.height);
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  // Scans often have no background; render onto white like a printed page
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+
+  await page.render({
+    canvas: canvas as unknown as HTMLCanvasElement,
+    viewport,
+  }).promise;
+  page.cleanup();
+
+  return { canvas, width, height };
+}
+
+/**
+ * Rasterizes each page of a PDF to a PNG image, one page at a time.
+ */
+export async function* renderPdfPages(
+  data: Buffer,
+  { dpi = DEFAULT_DPI, maxPages = MAX_PDF_PAGES }: RenderPdfOptions = {}
+): AsyncGenerator<RenderedPdfPage> {
+  // Loaded lazily so the PDF renderer is only pulled in when a PDF is processed
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  const document = await getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    // Metrics for the 14 standard PDF fonts, which scanned PDFs often reference without embedding
+    standardFontDataUrl: path.join(process.cwd(), 'node_modules/pdfjs-dist/standard_fonts/'),
+  }).promise.catch(error => {
+    throw new PdfFormatError(`The PDF is damaged or unreadable: ${describe(error)}`, { cause: error });
+  });
+
+  try {
+    const pageCount = Math.min(document.numPages, maxPages);
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const { canvas, width, height } = await renderPage(document, pageNumber, dpi).catch(error => {
+        throw new PdfFormatError(`Page ${pageNumber} of the PDF cannot be rendered: ${describe(error)}`, { cause: error });
+      });
+
+      yield {
+        pageNumber,
+        pageCount,
+        imageBase64: canvas.toBuffer('image/png').toString('base64'),
+        width,
+        height,
+      };
+    }
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+
+// Individual preprocessing steps, applied in the order they are listed
+export const preprocessingStepSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('rotate'),
+    angle: z.number().min(-360).max(360).describe('Clockwise rotation in degrees'),
+  }),
+  z.object({
+    type: z.literal('deskew'),
+    maxAngle: z.number().min(1).max(45).optional().describe('Largest skew angle to search for'),
+    angle: z.number().optional().describe('Detected skew angle, filled in once applied'),
+  }),
+  z.object({
+    type: z.literal('crop'),
+    left: z.number().min(0).max(1).describe('Left edge as a fraction of the image width'),
+    top: z.number().min(0).max(1).describe('Top edge as a fraction of the image height'),
+    width: z.number().gt(0).max(1),
+    height: z.number().gt(0).max(1),
+  }),
+  z.object({
+    type: z.literal('grayscale'),
+  }),
+  z.object({
+    type: z.literal('contrast'),
+    amount: z.number().min(0.1).max(4).describe('Contrast multiplier, 1 keeps the image unchanged'),
+  }),
+  z.object({
+    type: z.literal('threshold'),
+    level: z.number().int().min(1).max(254).describe('Pixels brighter than this become white, the rest black'),
+  }),
+  z.object({
+    type: z.literal('resize'),
+    maxDimension: z.union([z.number().int().min(64).max(8192), z.literal('auto')])
+      .describe('Longest side in pixels, or auto to use the model input resolution'),
+    resolvedMaxDimension: z.number().optional().describe('Pixel size used for auto, filled in once applied'),
+  }),
+]);
+
+export type PreprocessingStep = z.infer<typeof preprocessingStepSchema>;
+
+// Native input resolution of common vision models; larger images are downscaled anyway
+const MODEL_INPUT_RESOLUTIONS: Record<string, number> = {
+  'llava': 672,
+  'llava-llama3': 672,
+  'llava-phi3': 672,
+  'bakllava': 672,
+  'gemma3': 896,
+  'qwen2-vl': 1344,
+  'qwen2.5vl': 1344,
+  'minicpm-v': 1344,
+  'llama3.2-vision': 1120,
+  'moondream': 756,
+};
+
+const DEFAULT_INPUT_RESOLUTION = 1024;
+
+export function getModelInputResolution(modelId: string): number {
+  return MODEL_INPUT_RESOLUTIONS[modelId.split(':')[0]] ?? DEFAULT_INPUT_RESOLUTION;
+}
+
+// Form state of the preprocessing panel
+export interface PreprocessingOptions {
+  rotate: number;
+  deskew: boolean;
+  crop: { left: number; top: number; width: number; height: number } | null;
+  grayscale: boolean;
+  contrast: number;
+  threshold: number | null;
+  maxDimension: number | 'auto' | null;
+}
+
+export const DEFAULT_PREPROCESSING_OPTIONS: PreprocessingOptions = {
+  rotate: 0,
+  deskew: false,
+  crop: null,
+  grayscale: false,
+  contrast: 1,
+  threshold: null,
+  maxDimension: null,
+};
+
+/**
+ * Converts panel options to the ordered list of steps sent to the server.
+ */
+export function toPreprocessingSteps(options: PreprocessingOptions): PreprocessingStep[] {
+  const steps: PreprocessingStep[] = [];
+
+  if (options.rotate % 360 !== 0) steps.push({ type: 'rotate', angle: options.rotate });
+  if (options.deskew) steps.push({ type: 'deskew' });
+  if (options.crop) steps.push({ type: 'crop', ...options.crop });
+  if (options.grayscale) steps.push({ type: 'grayscale' });
+  if (options.contrast !== 1) steps.push({ type: 'contrast', amount: options.contrast });
+  if (options.threshold !== null) steps.push({ type: 'threshold', level: options.threshold });
+  if (options.maxDimension !== null) steps.push({ type: 'resize', maxDimension: options.maxDimension });
+
+  return steps;
+}
+
+/**
+ * Short human-readable summary of a step, e.g. for result metadata.
+ */
+export function describePreprocessingStep(step: PreprocessingStep): string {
+  switch (step.type) {
+    case 'rotate':
+      return `Rotate ${step.angle}°`;
+    case 'deskew':
+      return step.angle === undefined ? 'Deskew' : `Deskew (${step.angle.toFixed(2)}°)`;
+    case 'crop':
+      return `Crop ${Math.round(step.width * 100)}% × ${Math.round(step.height * 100)}%`;
+    case 'grayscale':
+      return 'Grayscale';
+    case 'contrast':
+      return `Contrast ×${step.amount}`;
+    case 'threshold':
+      return `Threshold ${step.level}`;
+    case 'resize':
+      return `Downscale to ${step.resolvedMaxDimension ?? step.maxDimension}px`;
+  }
+}
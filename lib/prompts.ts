@@ -0,0 +1,184 @@
+import { z } from 'zod';
+
+// Prompt templates: shared ones come from dotprompt files on the server, personal ones live in localStorage
+
+export const PROMPT_LIBRARY_FORMAT = 'vision-ocr-prompt-library';
+
+export const templateVariableSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  defaultValue: z.string().optional(),
+});
+
+export const promptTemplateVersionSchema = z.object({
+  template: z.string(),
+  defaultModel: z.string().optional(),
+  outputFormat: z.enum(['text', 'markdown']).optional(),
+  savedAt: z.number(),
+});
+
+export const promptTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  /** Prompt text with `{{variable}}` placeholders. */
+  template: z.string().min(1),
+  /** Descriptions and defaults for the placeholders; placeholders without one are still filled in. */
+  variables: z.array(templateVariableSchema).optional(),
+  defaultModel: z.string().optional(),
+  /** Markdown asks the model to preserve the layout. */
+  outputFormat: z.enum(['text', 'markdown']).optional(),
+  /** Earlier versions, oldest first. */
+  versions: z.array(promptTemplateVersionSchema).default([]),
+  updatedAt: z.number(),
+  /** Server templates are read-only; duplicate one to change it. */
+  source: z.enum(['server', 'local']).optional(),
+});
+
+export type TemplateVariable = z.infer<typeof templateVariableSchema>;
+export type PromptTemplateVersion = z.infer<typeof promptTemplateVersionSchema>;
+export type PromptTemplate = z.infer<typeof promptTemplateSchema>;
+
+export const promptLibrarySchema = z.object({
+  format: z.literal(PROMPT_LIBRARY_FORMAT),
+  exportedAt: z.number(),
+  templates: z.array(promptTemplateSchema),
+});
+
+export type PromptLibrary = z.infer<typeof promptLibrarySchema>;
+
+// Plain Handlebars-style placeholders, which dotprompt renders the same way
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w]*)\s*\}\}/g;
+
+/**
+ * Placeholder names in order of first use.
+ */
+export function templateVariableNames(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]))];
+}
+
+/**
+ * Every placeholder of the template with its description and default, if the
+ * template defines them.
+ */
+export function templateVariables(template: Pick<PromptTemplate, 'template' | 'variables'>): TemplateVariable[] {
+  return templateVariableNames(template.template).map(name =>
+    template.variables?.find(variable => variable.name === name) ?? { name }
+  );
+}
+
+/**
+ * Fills in the placeholders. Missing values fall back to the variable's
+ * default, and an empty string after that.
+ */
+export function renderPromptTemplate(template: PromptTemplate, values: Record<string, string>): string {
+  const defaults = Object.fromEntries(templateVariables(template).map(v => [v.name, v.defaultValue ?? '']));
+  return template.template.replace(VARIABLE_PATTERN, (_, name: string) => values[name]?.trim() || defaults[name] || '');
+}
+
+/**
+ * Applies edits to a local template. Changing the text, default model or
+ * output format keeps the previous state as a version.
+ */
+export function updatePromptTemplate(
+  template: PromptTemplate,
+  changes: Partial<Pick<PromptTemplate, 'name' | 'description' | 'template' | 'variables' | 'defaultModel' | 'outputFormat'>>
+): PromptTemplate {
+  const updated = { ...template, ...changes };
+  const changed = updated.template !== template.template
+    || updated.defaultModel !== template.defaultModel
+    || updated.outputFormat !== template.outputFormat;
+  if (!changed) return { ...updated, updatedAt: Date.now() };
+
+  const previous: PromptTemplateVersion = {
+    template: template.template,
+    defaultModel: template.defaultModel,
+    outputFormat: template.outputFormat,
+    savedAt: template.updatedAt,
+  };
+  return { ...updated, versions: [...template.versions, previous], updatedAt: Date.now() };
+}
+
+export function createPromptTemplate(
+  fields: Pick<PromptTemplate, 'name' | 'template'> &
+    Partial<Pick<PromptTemplate, 'description' | 'variables' | 'defaultModel' | 'outputFormat'>>
+): PromptTemplate {
+  return { ...fields, id: crypto.randomUUID(), versions: [], updatedAt: Date.now(), source: 'local' };
+}
+
+export function exportPromptLibrary(templates: PromptTemplate[]): PromptLibrary {
+  return {
+    format: PROMPT_LIBRARY_FORMAT,
+    exportedAt: Date.now(),
+    templates: templates.map(({ source: _source, ...template }) => template),
+  };
+}
+
+/**
+ * Validates an exported library file and merges it into the local templates.
+ * A template that already exists is replaced only by a newer one, and the
+ * versions of both are kept.
+ */
+export function importPromptLibrary(current: PromptTemplate[], json: unknown): { templates: PromptTemplate[]; imported: number } {
+  const result = promptLibrarySchema.safeParse(json);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+    throw new Error(`Not a prompt library file (${problems.slice(0, 3).join('; ')})`);
+  }
+
+  const templates = [...current];
+  let imported = 0;
+  for (const incoming of result.data.templates) {
+    const index = templates.findIndex(template => template.id === incoming.id);
+    if (index === -1) {
+      templates.push({ ...incoming, source: 'local' });
+      imported++;
+      continue;
+    }
+    const existing = templates[index];
+    if (incoming.updatedAt <= existing.updatedAt) continue;
+
+    const versions = [...existing.versions, ...incoming.versions]
+      .filter((version, i, all) => all.findIndex(v => v.savedAt === version.savedAt) === i)
+      .sort((a, b) => a.savedAt - b.savedAt);
+    templates[index] = { ...incoming, versions, source: 'local' };
+    imported++;
+  }
+  return { templates, imported };
+}
+
+/**
+ * Writes a template as a dotprompt file that can be added to the shared
+ * library in the server's prompts directory.
+ */
+export function toDotprompt(template: PromptTemplate): string {
+  const quote = (value: string) => JSON.stringify(value);
+  const variables = templateVariables(template);
+  const lines = ['---'];
+  if (template.description) lines.push(`description: ${quote(template.description)}`);
+  if (template.defaultModel) lines.push(`model: ${quote(`ollama/${template.defaultModel}`)}`);
+  if (variables.length > 0) {
+    lines.push('input:', '  schema:');
+    for (const variable of variables) {
+      lines.push(`    ${variable.name}?: ${quote(variable.description ? `string, ${variable.description}` : 'string')}`);
+    }
+    const defaults = variables.filter(variable => variable.defaultValue);
+    if (defaults.length > 0) {
+      lines.push('  default:');
+      for (const variable of defaults) lines.push(`    ${variable.name}: ${quote(variable.defaultValue!)}`);
+    }
+  }
+  lines.push(`ocr.label: ${quote(template.name)}`);
+  if (template.outputFormat) lines.push(`ocr.outputFormat: ${template.outputFormat}`);
+  if (template.versions.length > 0) lines.push(`version: "${template.versions.length + 1}"`);
+  lines.push('---', template.template, '');
+  return lines.join('\n');
+}
+
+/**
+ * File name for `toDotprompt`; the prompt is registered under this name.
+ */
+export function dotpromptFileName(template: PromptTemplate): string {
+  const base = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${base || 'prompt'}.prompt`;
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+// Rectangle on the (EXIF-oriented) original image, in fractions of its size
+export const regionSchema = z.object({
+  label: z.string().min(1).describe('Name shown above the region result'),
+  left: z.number().min(0).max(1),
+  top: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+});
+
+export type Region = z.infer<typeof regionSchema>;
+
+// Named set of regions reused for recurring document types
+export interface RegionLayout {
+  name: string;
+  regions: Region[];
+}
+
+// Regions smaller than this are treated as accidental clicks
+export const MIN_REGION_SIZE = 0.01;
+
+export function defaultRegionLabel(index: number): string {
+  return `Region ${index + 1}`;
+}
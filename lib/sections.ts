@@ -0,0 +1,57 @@
+export interface TextSection {
+  /** Label shown above the section, e.g. "Page 2" or a region name. */
+  title: string;
+  text: string;
+  error?: string;
+}
+
+export type CombinedFormat = 'text' | 'json' | 'markdown';
+
+/**
+ * Separator inserted before each section in the plain text view.
+ */
+export function sectionMarker(title: string): string {
+  return `--- ${title} ---`;
+}
+
+export function pageTitle(page: number): string {
+  return `Page ${page}`;
+}
+
+/**
+ * Summarizes extracted text the same way the single image JSON output does.
+ */
+export function summarizeText(text: string) {
+  return {
+    text,
+    lines: text.split('\n').filter(line => line.trim()),
+    wordCount: text.split(/\s+/).filter(word => word).length,
+  };
+}
+
+/**
+ * Joins per-page or per-region extraction results into one document with section markers.
+ */
+export function combineSectionTexts(sections: TextSection[], format: CombinedFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        sectionCount: sections.length,
+        sections: sections.map(({ title, text, error }) => ({ title, ...summarizeText(text), error })),
+      },
+      null,
+      2
+    );
+  }
+
+  if (format === 'markdown') {
+    const parts = sections.map(({ title, text, error }) =>
+      `## ${title}\n\n${error ? `> Extraction failed: ${error}` : text}`
+    );
+    return `# Extracted Text\n\n${parts.join('\n\n')}`;
+  }
+
+  return sections
+    .map(({ title, text, error }) => `${sectionMarker(title)}\n\n${error ? `[Extraction failed: ${error}]` : text}`)
+    .join('\n\n');
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+export const tableSchema = z.object({
+  title: z.string().nullable().describe('Caption or heading of the table, or null if it has none'),
+  headers: z.array(z.string()).describe('Column headers, one per column; empty if the table has no header row'),
+  rows: z.array(
+    z.array(z.string()).describe('Cell texts in column order, with an empty string for an empty cell')
+  ).describe('Data rows from top to bottom; every row has one cell per column'),
+});
+
+export const tablesSchema = z.object({
+  tables: z.array(tableSchema).describe('Every table in the image, in reading order'),
+});
+
+export type ExtractedTable = z.infer<typeof tableSchema>;
+export type TableData = z.infer<typeof tablesSchema>;
+
+export function isTableData(data: unknown): data is TableData {
+  return tablesSchema.safeParse(data).success;
+}
+
+function columnCount(table: ExtractedTable): number {
+  return table.headers.length || table.rows[0]?.length || 0;
+}
+
+/**
+ * Finds the first row whose cell count differs from the table's column count,
+ * described so the model can fix it in a repair attempt.
+ */
+export function findColumnMismatch({ tables }: TableData): string | undefined {
+  for (const [t, table] of tables.entries()) {
+    const columns = columnCount(table);
+    const name = tables.length > 1 ? `Table ${t + 1}` : 'The table';
+    if (columns === 0) {
+      return `${name} has no columns`;
+    }
+    const r = table.rows.findIndex(row => row.length !== columns);
+    if (r !== -1) {
+      return `${name}, row ${r + 1} has ${table.rows[r].length} cells but the table has ${columns} columns; ` +
+        'merged or empty cells still need one entry per column';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Header row (if any) followed by the data rows.
+ */
+export function tableToRows(table: ExtractedTable): string[][] {
+  return table.headers.length ? [table.headers, ...table.rows] : table.rows;
+}
+
+function quoteCsvCell(cell: string): string {
+  return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+export function toCsv(table: ExtractedTable): string {
+  return tableToRows(table).map(row => row.map(quoteCsvCell).join(',')).join('\r\n');
+}
+
+// TSV has no quoting, so tabs and line breaks inside cells become spaces
+export function toTsv(table: ExtractedTable): string {
+  return tableToRows(table).map(row => row.map(cell => cell.replace(/[\t\r\n]+/g, ' ')).join('\t')).join('\n');
+}
+
+export function toMarkdownTable(table: ExtractedTable): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/[\r\n]+/g, '<br>');
+  const line = (cells: string[]) => `| ${cells.map(escape).join(' | ')} |`;
+  // Markdown tables need a header row; a table without one gets empty headers
+  const headers = table.headers.length ? table.headers : new Array<string>(columnCount(table)).fill('');
+  return [line(headers), line(headers.map(() => '---')), ...table.rows.map(line)].join('\n');
+}
@@ -0,0 +1,238 @@
+import sharp from 'sharp';
+
+export interface TileOptions {
+  /** Longest side of a tile in pixels. */
+  tileSize: number;
+  /** Fraction of each tile shared with its neighbours (0 to 0.5). */
+  overlap: number;
+}
+
+export interface ImageTile {
+  index: number;
+  row: number;
+  col: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface TileGrid {
+  rows: number;
+  cols: number;
+  width: number;
+  height: number;
+  tiles: ImageTile[];
+}
+
+// Evenly spaced tile start offsets covering `length` with the given overlap
+function tileOffsets(length: number, tileSize: number, overlap: number): number[] {
+  if (length <= tileSize) return [0];
+
+  const stride = Math.max(1, Math.floor(tileSize * (1 - overlap)));
+  const count = Math.ceil((length - tileSize) / stride) + 1;
+  const step = (length - tileSize) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(i * step));
+}
+
+/**
+ * Splits an image into overlapping tiles in reading order (rows top to
+ * bottom, columns left to right).
+ */
+export async function splitIntoTiles(data: Buffer, { tileSize, overlap }: TileOptions): Promise<TileGrid> {
+  // Apply the EXIF orientation first, so rows and columns follow the text as it is read
+  const oriented = await sharp(data).rotate().toBuffer();
+  const { width = 0, height = 0 } = await sharp(oriented).metadata();
+  const xs = tileOffsets(width, tileSize, overlap);
+  const ys = tileOffsets(height, tileSize, overlap);
+  const tiles: ImageTile[] = [];
+
+  for (const [row, top] of ys.entries()) {
+    for (const [col, left] of xs.entries()) {
+      const tileWidth = Math.min(tileSize, width - left);
+      const tileHeight = Math.min(tileSize, height - top);
+      tiles.push({
+        index: tiles.length,
+        row,
+        col,
+        left,
+        top,
+        width: tileWidth,
+        height: tileHeight,
+        data: await sharp(oriented).extract({ left, top, width: tileWidth, height: tileHeight }).png().toBuffer(),
+      });
+    }
+  }
+
+  return { rows: ys.length, cols: xs.length, width, height, tiles };
+}
+
+function normalizeLine(line: string): string {
+  return line.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Lines in an overlap region are read twice and rarely come back byte-identical;
+// a tile edge can also cut a line short, so a long enough prefix or suffix matches too
+function similarLines(a: string, b: string): boolean {
+  const x = normalizeLine(a);
+  const y = normalizeLine(b);
+  if (!x || !y) return x === y;
+
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  if (shorter.length >= 8 && (longer.startsWith(shorter) || longer.endsWith(shorter))) {
+    return true;
+  }
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length) >= 0.8;
+}
+
+// Longest run of words ending `a` that also starts `b`
+function wordOverlap(a: string, b: string): number {
+  const left = normalizeLine(a).split(' ');
+  const right = normalizeLine(b).split(' ');
+  for (let n = Math.min(left.length, right.length); n > 0; n--) {
+    if (left.slice(-n).join(' ') === right.slice(0, n).join(' ')) return n;
+  }
+  return 0;
+}
+
+const MAX_OVERLAP_LINES = 15;
+
+/**
+ * Appends `next` to `previous`, dropping lines (or a run of words on the
+ * boundary line) that both texts read from the shared overlap region.
+ */
+export function mergeOverlappingText(previous: string, next: string): string {
+  const a = previous.split('\n').filter(line => line.trim());
+  const b = next.split('\n').filter(line => line.trim());
+  if (a.length === 0) return b.join('\n');
+  if (b.length === 0) return a.join('\n');
+
+  for (let k = Math.min(a.length, b.length, MAX_OVERLAP_LINES); k > 0; k--) {
+    const tail = a.slice(-k);
+    if (tail.every((line, i) => similarLines(line, b[i]))) {
+      // Keep whichever reading of each shared line is more complete
+      const shared = tail.map((line, i) => (b[i].length > line.length ? b[i] : line));
+      return [...a.slice(0, -k), ...shared, ...b.slice(k)].join('\n');
+    }
+  }
+
+  // No whole lines repeat; the boundary line may still be split mid-sentence
+  const words = wordOverlap(a[a.length - 1], b[0]);
+  if (words >= 2) {
+    const rest = b[0].trim().split(/\s+/).slice(words).join(' ');
+    return [...a.slice(0, -1), rest ? `${a[a.length - 1]} ${rest}` : a[a.length - 1], ...b.slice(1)].join('\n');
+  }
+
+  return [...a, ...b].join('\n');
+}
+
+// Whether a left and a right line were read across the shared overlap column
+function sharesOverlap(left: string, right: string): boolean {
+  if (!normalizeLine(left) || !normalizeLine(right)) return false;
+  return wordOverlap(left, right) > 0 || similarLines(left, right);
+}
+
+// Appends the right line, minus the words both tiles read from the overlap column
+function joinLines(left: string, right: string): string {
+  if (!left || !right) return left || right;
+  const rest = right.split(/\s+/).slice(wordOverlap(left, right)).join(' ');
+  return rest ? `${left} ${rest}` : left;
+}
+
+/**
+ * Joins horizontally adjacent tiles line by line, so a label on the left
+ * stays on the same line as its value on the right.
+ *
+ * A wrapped line or an empty row can give one tile more lines than the other,
+ * so lines are first aligned on the words both tiles read from the overlap
+ * column (the longest chain of such pairs, in order). Lines between two
+ * aligned pairs are paired by position only where both sides have the same
+ * number of them; otherwise they are kept on their own lines.
+ */
+function joinSideBySide(left: string, right: string): string {
+  const a = left.split('\n').map(line => line.trim()).filter(Boolean);
+  const b = right.split('\n').map(line => line.trim()).filter(Boolean);
+  if (a.length === 0 || b.length === 0) return [...a, ...b].join('\n');
+
+  // Longest common subsequence of lines that share overlap words
+  const chain = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      chain[i][j] = sharesOverlap(a[i], b[j])
+        ? chain[i + 1][j + 1] + 1
+        : Math.max(chain[i + 1][j], chain[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  const joinGap = (leftGap: string[], rightGap: string[]) => {
+    if (leftGap.length === rightGap.length) {
+      lines.push(...leftGap.map((line, k) => joinLines(line, rightGap[k])));
+    } else {
+      lines.push(...leftGap, ...rightGap);
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  let gapStart = [0, 0];
+  while (i < a.length && j < b.length) {
+    if (sharesOverlap(a[i], b[j]) && chain[i][j] === chain[i + 1][j + 1] + 1) {
+      joinGap(a.slice(gapStart[0], i), b.slice(gapStart[1], j));
+      lines.push(joinLines(a[i], b[j]));
+      i++;
+      j++;
+      gapStart = [i, j];
+    } else if (chain[i + 1][j] >= chain[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  joinGap(a.slice(gapStart[0]), b.slice(gapStart[1]));
+
+  return lines.join('\n');
+}
+
+/**
+ * Stitches tile texts in reading order: tiles are joined line by line across
+ * each row, then rows are merged top to bottom. A failed tile is marked after
+ * its row, the way a failed PDF page is marked in the document.
+ */
+export function stitchTileTexts(tiles: { row: number; col: number; text: string; error?: string }[]): string {
+  const rows = new Map<number, { col: number; text: string; error?: string }[]>();
+  for (const tile of tiles) {
+    rows.set(tile.row, [...(rows.get(tile.row) ?? []), tile]);
+  }
+
+  return [...rows.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([row, rowTiles]) => {
+      const sorted = [...rowTiles].sort((a, b) => a.col - b.col);
+      const text = sorted
+        .filter(tile => !tile.error)
+        .reduce((joined, tile) => joinSideBySide(joined, tile.text), '');
+      const failures = sorted
+        .filter(tile => tile.error)
+        .map(tile => `[Extraction failed for the tile in row ${row + 1}, column ${tile.col + 1}: ${tile.error}]`);
+      return [text, ...failures].filter(Boolean).join('\n');
+    })
+    .reduce((text, rowText) => mergeOverlappingText(text, rowText), '');
+}
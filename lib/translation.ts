@@ -0,0 +1,31 @@
+// Lines sent to the model per request; small models lose track of the numbering on long inputs
+export const TRANSLATION_BATCH_LINES = 40;
+
+export interface NumberedLine {
+  /** 1-based line number in the original text. */
+  number: number;
+  text: string;
+}
+
+/**
+ * Asks for a line-by-line translation. Every line carries its number so the
+ * answer can be aligned with the original even if the model skips a line.
+ */
+export function buildTranslationPrompt(
+  lines: NumberedLine[],
+  { targetLanguage, sourceLanguage }: { targetLanguage: string; sourceLanguage?: string }
+): string {
+  return [
+    `Translate each numbered line below ${sourceLanguage ? `from ${sourceLanguage} ` : ''}into ${targetLanguage}.`,
+    'Answer with exactly one line per input line, starting with the same number in brackets, e.g. "[3] translated text", and nothing else.',
+    'Translate every line on its own, even when a sentence continues on the next line.',
+    'Keep names, numbers, codes, URLs and markdown symbols as they are. Repeat a line unchanged if it needs no translation.',
+    '',
+    ...lines.map(line => `[${line.number}] ${line.text}`),
+  ].join('\n');
+}
+
+export function parseNumberedLine(line: string): NumberedLine | null {
+  const match = line.match(/^\s*\[(\d+)\]\s?(.*)$/);
+  return match ? { number: Number(match[1]), text: match[2].trim() } : null;
+}
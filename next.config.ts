@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native image bindings, WASM decoders and the PDF renderer must be loaded by Node, not bundled
+  serverExternalPackages: ["pdfjs-dist", "@napi-rs/canvas", "sharp", "heic-decode"],
 };
 
 export default nextConfig;
@@ -0,0 +1,156 @@
+/**
+ * Checks the structured-output repair loop of extractTextFromImage against a
+ * fake Ollama server with scripted answers, without a real model: invalid
+ * answers are sent back with a repair prompt, the retry count is reported,
+ * repeated failures end in MALFORMED_OUTPUT and server errors are not retried.
+ *
+ *   npm run check:repair
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { parseExtractionError } from '../lib/errors';
+
+interface Scenario {
+  name: string;
+  schema: { schemaId?: string; jsonSchema?: Record<string, unknown> };
+  /** Model answers in order; a number answers with that HTTP status and a model-not-found error. */
+  answers: (string | number)[];
+  expect: { repairAttempts: number } | { code: string };
+  requests: number;
+}
+
+const TITLE_SCHEMA = {
+  type: 'object',
+  properties: { title: { type: 'string' } },
+  required: ['title'],
+  additionalProperties: false,
+};
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'valid answer',
+    schema: { jsonSchema: TITLE_SCHEMA },
+    answers: ['{"title": "Receipt"}'],
+    expect: { repairAttempts: 0 },
+    requests: 1,
+  },
+  {
+    name: 'schema mismatch, then valid',
+    schema: { jsonSchema: TITLE_SCHEMA },
+    answers: ['{"title": 5}', '{"title": "Receipt"}'],
+    expect: { repairAttempts: 1 },
+    requests: 2,
+  },
+  {
+    name: 'not JSON, then valid',
+    schema: { jsonSchema: TITLE_SCHEMA },
+    answers: ['I cannot read this image', '{"title": "Receipt"}'],
+    expect: { repairAttempts: 1 },
+    requests: 2,
+  },
+  {
+    name: 'table rows with the wrong cell count, then valid',
+    schema: { schemaId: 'table' },
+    answers: [
+      '{"tables": [{"title": null, "headers": ["A", "B"], "rows": [["1"]]}]}',
+      '{"tables": [{"title": null, "headers": ["A", "B"], "rows": [["1", "2"]]}]}',
+    ],
+    expect: { repairAttempts: 1 },
+    requests: 2,
+  },
+  {
+    name: 'schema mismatch on every attempt',
+    schema: { jsonSchema: TITLE_SCHEMA },
+    answers: ['{"title": 5}', '{"title": 6}', '{"title": 7}'],
+    expect: { code: 'MALFORMED_OUTPUT' },
+    requests: 3,
+  },
+  {
+    name: 'model not installed',
+    schema: { jsonSchema: TITLE_SCHEMA },
+    answers: [404],
+    expect: { code: 'MODEL_NOT_FOUND' },
+    requests: 1,
+  },
+];
+
+// Prompts received by the fake server for the running scenario
+let received: string[] = [];
+let answers: (string | number)[] = [];
+
+function answer(request: IncomingMessage, response: ServerResponse, body: string) {
+  if (request.url !== '/api/chat') {
+    response.writeHead(404).end('{"error": "not found"}');
+    return;
+  }
+  const { model, messages } = JSON.parse(body);
+  received.push(messages.map((message: { content: string }) => message.content).join('\n'));
+
+  const next = answers.shift();
+  if (next === undefined) {
+    response.writeHead(500, { 'Content-Type': 'application/json' }).end('{"error": "no scripted answer left"}');
+    return;
+  }
+  if (typeof next === 'number') {
+    response.writeHead(next, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ error: `model "${model}" not found, try pulling it first` }));
+    return;
+  }
+  response.writeHead(200, { 'Content-Type': 'application/x-ndjson' })
+    .end(JSON.stringify({ model, message: { role: 'assistant', content: next }, done: true }) + '\n');
+}
+
+async function main() {
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => answer(request, response, body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.OLLAMA_SERVER_ADDRESS = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Imported after the server address is set, which the Ollama plugin reads on load
+  const { extractTextFromImage } = await import('../lib/genkit/flows');
+  const image = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+  // The flows log every attempt; keep the output to one line per scenario
+  const log = console.log;
+  console.log = console.warn = console.error = () => {};
+
+  let failures = 0;
+  for (const scenario of SCENARIOS) {
+    received = [];
+    answers = [...scenario.answers];
+    try {
+      const outcome = await extractTextFromImage({
+        imageBase64: image.toString('base64'),
+        model: 'fake-vision',
+        prompt: 'Extract the data.',
+        outputFormat: 'json',
+        ...scenario.schema,
+      }).then(
+        result => ({ repairAttempts: result.metadata.repairAttempts }),
+        error => ({ code: parseExtractionError(error).code })
+      );
+
+      assert.deepEqual(outcome, scenario.expect);
+      assert.equal(received.length, scenario.requests, 'number of model requests');
+      assert.ok(!received[0].includes('did not match the required JSON schema'), 'first prompt is not a repair prompt');
+      for (const prompt of received.slice(1)) {
+        assert.ok(prompt.includes('did not match the required JSON schema'), 'retries send the repair prompt');
+      }
+      log(`ok    ${scenario.name}`);
+    } catch (error) {
+      failures++;
+      log(`FAIL  ${scenario.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  server.close();
+  log(failures ? `${failures} of ${SCENARIOS.length} scenarios failed` : `All ${SCENARIOS.length} scenarios passed`);
+  process.exit(failures ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,260 @@
+/**
+ * Runs the extraction flows over a labeled dataset for every model × prompt
+ * combination, scores the results with the OCR evaluators and writes a JSON
+ * report. Pass --baseline with an earlier report to print the change per metric.
+ *
+ *   npm run eval -- --dataset eval/datasets/receipts/dataset.json \
+ *     --model llava:13b --model gemma3:27b --prompts eval/prompts.json
+ */
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+import { ai } from '../lib/genkit/config';
+import {
+  extractTextFromImage,
+  extractTextFromDocument,
+  DEFAULT_EXTRACTION_PROMPT,
+} from '../lib/genkit/flows';
+import {
+  characterErrorRateEvaluator,
+  wordErrorRateEvaluator,
+  fieldAccuracyEvaluator,
+} from '../lib/genkit/evaluators';
+import { evalDatasetSchema, type EvalCase } from '../lib/evaluation';
+import { parseExtractionError } from '../lib/errors';
+import { isPdf } from '../lib/pdf';
+
+const promptFileSchema = z.array(
+  z.union([z.string(), z.object({ id: z.string(), text: z.string() })])
+);
+
+interface PromptVariant {
+  id: string;
+  text: string;
+}
+
+interface CaseRun {
+  id: string;
+  latencyMs: number;
+  error?: string;
+  extractedText?: string;
+  structuredData?: unknown;
+  scores: Record<string, number | undefined>;
+}
+
+interface MetricSummary {
+  mean: number | null;
+  passed: number;
+  failed: number;
+}
+
+interface MatrixEntry {
+  model: string;
+  promptId: string;
+  prompt: string;
+  meanLatencyMs: number;
+  errors: number;
+  metrics: Record<string, MetricSummary>;
+  cases: CaseRun[];
+}
+
+interface EvalReport {
+  createdAt: string;
+  dataset: string;
+  caseCount: number;
+  matrix: MatrixEntry[];
+}
+
+const EVALUATORS = [
+  { metric: 'characterErrorRate', action: characterErrorRateEvaluator, kind: 'text', lowerIsBetter: true, worstScore: 1 },
+  { metric: 'wordErrorRate', action: wordErrorRateEvaluator, kind: 'text', lowerIsBetter: true, worstScore: 1 },
+  { metric: 'fieldAccuracy', action: fieldAccuracyEvaluator, kind: 'fields', lowerIsBetter: false, worstScore: 0 },
+] as const;
+
+async function loadPrompts(inline: string[], file?: string): Promise<PromptVariant[]> {
+  const prompts: PromptVariant[] = inline.map((text, i) => ({ id: `prompt-${i + 1}`, text }));
+  if (file) {
+    const entries = promptFileSchema.parse(JSON.parse(await readFile(file, 'utf8')));
+    entries.forEach((entry, i) => {
+      prompts.push(typeof entry === 'string' ? { id: `${path.basename(file, '.json')}-${i + 1}`, text: entry } : entry);
+    });
+  }
+  return prompts.length > 0 ? prompts : [{ id: 'default', text: DEFAULT_EXTRACTION_PROMPT }];
+}
+
+// Text is scored on a plain-text extraction and fields on a structured one, so a
+// case with both runs the image twice rather than scoring error rates on JSON
+async function runCase(testCase: EvalCase, data: Buffer, model: string, prompt: string) {
+  const base64 = data.toString('base64');
+
+  if (isPdf(data)) {
+    const result = await extractTextFromDocument({ pdfBase64: base64, model, prompt, outputFormat: 'text' });
+    const failed = result.pages.find(page => page.error);
+    return { extractedText: result.extractedText, error: failed?.error };
+  }
+
+  const textResult = testCase.text !== undefined
+    ? await extractTextFromImage({ imageBase64: base64, model, prompt, outputFormat: 'text' })
+    : undefined;
+  const fieldsResult = testCase.fields !== undefined
+    ? await extractTextFromImage({ imageBase64: base64, model, prompt, outputFormat: 'json', schemaId: testCase.schemaId })
+    : undefined;
+  return {
+    extractedText: textResult?.extractedText ?? fieldsResult?.extractedText,
+    structuredData: fieldsResult?.structuredData,
+  };
+}
+
+function summarize(scores: (number | undefined)[], passed: number, failed: number): MetricSummary {
+  const values = scores.filter((score): score is number => typeof score === 'number');
+  return {
+    mean: values.length ? Number((values.reduce((a, b) => a + b, 0) / values.length).toFixed(4)) : null,
+    passed,
+    failed,
+  };
+}
+
+async function evaluateRun(cases: EvalCase[], runs: CaseRun[]): Promise<Record<string, MetricSummary>> {
+  const metrics: Record<string, MetricSummary> = {};
+
+  for (const { metric, action, kind, worstScore } of EVALUATORS) {
+    const scored = runs
+      .map((run, i) => ({ run, testCase: cases[i] }))
+      .filter(({ testCase }) => kind === 'text' ? testCase.text !== undefined : testCase.fields !== undefined);
+    if (scored.length === 0) continue;
+
+    let passed = 0;
+    let failed = 0;
+    // A run that errored read nothing; leaving it out of the mean would flatter a failing model
+    for (const { run } of scored.filter(({ run }) => run.error)) {
+      run.scores[metric] = worstScore;
+      failed++;
+    }
+
+    const dataset = scored
+      .filter(({ run }) => !run.error)
+      .map(({ run, testCase }) => ({
+        testCaseId: testCase.id,
+        input: testCase.image,
+        output: kind === 'text' ? run.extractedText : { structuredData: run.structuredData },
+        reference: kind === 'text' ? testCase.text : testCase.fields,
+      }));
+    const responses = dataset.length > 0 ? await ai.evaluate({ evaluator: action, dataset, options: {} }) : [];
+    for (const response of responses) {
+      const evaluation = Array.isArray(response.evaluation) ? response.evaluation[0] : response.evaluation;
+      const run = runs.find(r => r.id === response.testCaseId);
+      if (run && typeof evaluation.score === 'number') run.scores[metric] = evaluation.score;
+      if (evaluation.status === 'PASS') passed++;
+      if (evaluation.status === 'FAIL') failed++;
+    }
+    metrics[metric] = summarize(runs.map(run => run.scores[metric]), passed, failed);
+  }
+
+  return metrics;
+}
+
+function formatDelta(current: number | null, previous: number | null | undefined, lowerIsBetter: boolean): string {
+  if (current === null) return 'n/a';
+  if (previous === null || previous === undefined) return current.toFixed(4);
+  const delta = current - previous;
+  if (Math.abs(delta) < 1e-4) return `${current.toFixed(4)} (=)`;
+  const better = lowerIsBetter ? delta < 0 : delta > 0;
+  return `${current.toFixed(4)} (${delta > 0 ? '+' : ''}${delta.toFixed(4)} ${better ? 'better' : 'worse'})`;
+}
+
+function printReport(report: EvalReport, baseline?: EvalReport) {
+  console.log(`\nDataset: ${report.dataset} (${report.caseCount} cases)`);
+  for (const entry of report.matrix) {
+    const previous = baseline?.matrix.find(b => b.model === entry.model && b.promptId === entry.promptId);
+    console.log(`\n${entry.model} × ${entry.promptId}  latency ${(entry.meanLatencyMs / 1000).toFixed(1)}s  errors ${entry.errors}`);
+    for (const { metric, lowerIsBetter } of EVALUATORS) {
+      const summary = entry.metrics[metric];
+      if (!summary) continue;
+      console.log(
+        `  ${metric.padEnd(20)} ${formatDelta(summary.mean, previous?.metrics[metric]?.mean, lowerIsBetter)}` +
+        `  pass ${summary.passed} / fail ${summary.failed}`
+      );
+    }
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string' },
+      model: { type: 'string', multiple: true, default: [] },
+      prompt: { type: 'string', multiple: true, default: [] },
+      prompts: { type: 'string' },
+      out: { type: 'string', default: 'eval/reports' },
+      baseline: { type: 'string' },
+    },
+  });
+
+  if (!values.dataset || values.model.length === 0) {
+    console.error('Usage: npm run eval -- --dataset <dataset.json> --model <id> [--model <id>] [--prompt <text>] [--prompts <prompts.json>] [--out <dir>] [--baseline <report.json>]');
+    process.exit(1);
+  }
+
+  const datasetPath = path.resolve(values.dataset);
+  const dataset = evalDatasetSchema.parse(JSON.parse(await readFile(datasetPath, 'utf8')));
+  const images = await Promise.all(
+    dataset.cases.map(testCase => readFile(path.resolve(path.dirname(datasetPath), testCase.image)))
+  );
+  const prompts = await loadPrompts(values.prompt, values.prompts);
+  const baseline = values.baseline
+    ? (JSON.parse(await readFile(values.baseline, 'utf8')) as EvalReport)
+    : undefined;
+
+  const report: EvalReport = {
+    createdAt: new Date().toISOString(),
+    dataset: dataset.name,
+    caseCount: dataset.cases.length,
+    matrix: [],
+  };
+
+  for (const model of values.model) {
+    for (const prompt of prompts) {
+      console.log(`Running ${model} × ${prompt.id}...`);
+      const runs: CaseRun[] = [];
+
+      for (const [i, testCase] of dataset.cases.entries()) {
+        const startTime = Date.now();
+        try {
+          const result = await runCase(testCase, images[i], model, prompt.text);
+          runs.push({ id: testCase.id, latencyMs: Date.now() - startTime, ...result, scores: {} });
+        } catch (err) {
+          runs.push({
+            id: testCase.id,
+            latencyMs: Date.now() - startTime,
+            error: parseExtractionError(err, String(err)).message,
+            scores: {},
+          });
+        }
+        console.log(`  ${testCase.id}: ${runs[i].error ? `error (${runs[i].error})` : `${runs[i].latencyMs}ms`}`);
+      }
+
+      report.matrix.push({
+        model,
+        promptId: prompt.id,
+        prompt: prompt.text,
+        meanLatencyMs: Math.round(runs.reduce((sum, run) => sum + run.latencyMs, 0) / runs.length),
+        errors: runs.filter(run => run.error).length,
+        metrics: await evaluateRun(dataset.cases, runs),
+        cases: runs,
+      });
+    }
+  }
+
+  await mkdir(values.out, { recursive: true });
+  const reportPath = path.join(values.out, `${dataset.name}-${report.createdAt.replace(/[:.]/g, '-')}.json`);
+  await writeFile(reportPath, JSON.stringify(report, null, 2));
+
+  printReport(report, baseline);
+  console.log(`\nReport written to ${reportPath}`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,328 @@
+/**
+ * Runs the extraction flows from the command line, without the web UI.
+ * Text streams to stdout, or is written next to each input with --sidecar.
+ * Exits with 1 when any file fails and 2 on invalid arguments.
+ *
+ *   npm run extract -- --model gemma3:4b scans/*.png
+ *   npm run extract -- --preset receipt --format json --sidecar "receipts/*.jpg"
+ *   npm run extract -- models
+ */
+import { readFile, writeFile, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  extractTextFromImage,
+  extractTextFromDocument,
+  getAvailableModels,
+  DEFAULT_EXTRACTION_PROMPT,
+} from '../lib/genkit/flows';
+import { loadPromptTemplates, findPromptTemplate } from '../lib/genkit/prompts';
+import { isRequestWideError } from '../lib/genkit/errors';
+import { renderPromptTemplate } from '../lib/prompts';
+import { getLanguageHint, LANGUAGE_HINTS } from '../lib/language';
+import { parseExtractionError, EXTRACTION_ERRORS } from '../lib/errors';
+import { isPdf } from '../lib/pdf';
+
+const USAGE = `Usage:
+  npm run extract -- [options] <file or glob>...
+  npm run extract -- models [--json]
+
+Options:
+  --model <id>         Vision model; defaults to the preset's model
+  --prompt <text>      Prompt for the model
+  --preset <name>      Shared prompt template from the prompts directory, e.g. receipt
+  --var <name=value>   Value for a {{placeholder}} of the preset; repeatable
+  --format <format>    text, markdown or json (default: the preset's format, or text)
+  --schema <id>        Built-in schema for --format json, e.g. invoice
+  --language <id>      Expected language, e.g. ru or ja
+  --sidecar            Write <name>.txt, or <name>.json for JSON, next to each file
+  --json               models: print the model list as JSON`;
+
+type OutputFormat = 'text' | 'json' | 'markdown';
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'markdown'];
+
+class UsageError extends Error {}
+
+// Only the extracted text goes to stdout; see the console.log redirect below
+const print = (text: string) => process.stdout.write(`${text}\n`);
+
+const hasGlob = (segment: string) => /[*?[{]/.test(segment);
+
+// `*` and `?` stay within a path segment, `**` spans segments and `{a,b}` picks one
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') source += '[^/]*';
+    else if (char === '?') source += '[^/]';
+    else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) source += '|';
+    else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      source += end === -1 ? '\\[' : pattern.slice(i, end + 1);
+      if (end !== -1) i = end;
+    } else source += char.replace(/[.+^$()|{}\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files = await Promise.all(entries.map(entry => {
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(fullPath) : Promise.resolve(entry.isFile() ? [fullPath] : []);
+  }));
+  return files.flat();
+}
+
+/**
+ * Expands quoted globs, for shells that pass them through or scripts that
+ * build them; plain paths are kept as they are.
+ */
+async function expandInputs(patterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    const segments = pattern.split(/[\\/]/);
+    if (!segments.some(hasGlob)) {
+      files.push(pattern);
+      continue;
+    }
+    const base = segments.slice(0, segments.findIndex(hasGlob)).join('/') || '.';
+    const matcher = globToRegExp(path.posix.normalize(segments.join('/')));
+    const matches = (await walk(base))
+      .map(file => file.split(path.sep).join('/'))
+      .filter(file => matcher.test(path.posix.normalize(file)))
+      .sort();
+    if (matches.length === 0) {
+      throw new UsageError(`No files match ${pattern}`);
+    }
+    files.push(...matches);
+  }
+  return [...new Set(files)];
+}
+
+function sidecarPath(file: string, format: OutputFormat): string {
+  const { dir, name } = path.parse(file);
+  return path.join(dir, `${name}.${format === 'json' ? 'json' : 'txt'}`);
+}
+
+interface ExtractOptions {
+  model: string;
+  prompt: string;
+  format: OutputFormat;
+  schemaId?: string;
+  language?: string;
+  sidecar: boolean;
+  abortSignal: AbortSignal;
+}
+
+// Image text is streamed to stdout; PDFs and JSON are printed once they are complete
+async function extractFile(file: string, options: ExtractOptions): Promise<{ text: string; cancelled?: boolean }> {
+  const data = await readFile(file);
+  const stream = !options.sidecar && options.format !== 'json' && !isPdf(data);
+  const common = {
+    model: options.model,
+    prompt: options.prompt,
+    outputFormat: options.format,
+    language: options.language,
+  };
+
+  if (isPdf(data)) {
+    const result = await extractTextFromDocument({ ...common, pdfBase64: data.toString('base64') }, { abortSignal: options.abortSignal });
+    const failed = result.pages.filter(page => page.error);
+    if (failed.length === result.pages.length && failed.length > 0) {
+      throw new Error(failed[0].error);
+    }
+    for (const page of failed) {
+      console.error(`${file}: page ${page.page} failed: ${page.error}`);
+    }
+    return { text: result.extractedText, cancelled: options.abortSignal.aborted };
+  }
+
+  const result = await extractTextFromImage(
+    { ...common, imageBase64: data.toString('base64'), schemaId: options.schemaId },
+    {
+      onChunk: stream ? (text: string) => process.stdout.write(text) : undefined,
+      abortSignal: options.abortSignal,
+    }
+  );
+  if (stream) {
+    process.stdout.write('\n');
+    return { text: '', cancelled: result.metadata.cancelled };
+  }
+  return { text: result.extractedText, cancelled: result.metadata.cancelled };
+}
+
+async function listModels(json: boolean) {
+  const { models, ollamaStatus } = await getAvailableModels();
+  if (!ollamaStatus.isRunning) {
+    throw new Error(`Cannot connect to the Ollama server${ollamaStatus.error ? ` (${ollamaStatus.error})` : ''}`);
+  }
+  const installed = models.filter(model => model.available);
+  if (json) {
+    print(JSON.stringify(installed, null, 2));
+    return;
+  }
+  if (installed.length === 0) {
+    console.error('No vision models installed. Try: ollama pull gemma3:4b');
+    return;
+  }
+  const width = Math.max(...installed.map(model => model.id.length));
+  for (const model of installed) {
+    const details = [model.size, model.parameterSize, model.quantization].filter(Boolean).join('  ');
+    print(`${model.id.padEnd(width)}  ${details}`);
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      model: { type: 'string' },
+      prompt: { type: 'string' },
+      preset: { type: 'string' },
+      var: { type: 'string', multiple: true, default: [] },
+      format: { type: 'string' },
+      schema: { type: 'string' },
+      language: { type: 'string' },
+      sidecar: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    print(USAGE);
+    return 0;
+  }
+  if (positionals[0] === 'models') {
+    await listModels(values.json);
+    return 0;
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No input files');
+  }
+
+  let prompt = values.prompt ?? DEFAULT_EXTRACTION_PROMPT;
+  let model = values.model;
+  let format = values.format as OutputFormat | undefined;
+
+  if (values.preset) {
+    const templates = await loadPromptTemplates();
+    const preset = findPromptTemplate(templates, values.preset);
+    if (!preset) {
+      const names = templates.map(t => t.id.replace(/^server:/, '')).join(', ');
+      throw new UsageError(`Unknown preset ${values.preset}; available: ${names || 'none'}`);
+    }
+    const variables = Object.fromEntries(values.var.map(pair => {
+      const separator = pair.indexOf('=');
+      if (separator === -1) throw new UsageError(`--var expects name=value, got ${pair}`);
+      return [pair.slice(0, separator), pair.slice(separator + 1)];
+    }));
+    // A {{language}} placeholder follows --language, as it follows the language hint in the UI
+    const language = values.language ? getLanguageHint(values.language)?.name ?? '' : '';
+    prompt = values.prompt ?? renderPromptTemplate(preset, { language, ...variables });
+    model ??= preset.defaultModel;
+    format ??= preset.outputFormat;
+  }
+
+  if (!model) {
+    throw new UsageError('--model is required unless the preset has a default model');
+  }
+  if (format && !OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (values.language && !getLanguageHint(values.language)) {
+    throw new UsageError(`Unknown language ${values.language}; use one of ${LANGUAGE_HINTS.map(hint => hint.id).join(', ')}`);
+  }
+  if (values.schema && format !== 'json') {
+    throw new UsageError('--schema needs --format json');
+  }
+
+  const files = await expandInputs(positionals);
+  for (const file of files) {
+    if (!(await stat(file).catch(() => null))?.isFile()) {
+      throw new UsageError(`Not a file: ${file}`);
+    }
+  }
+
+  // Ctrl+C stops the request to Ollama instead of leaving the model generating
+  // Genkit's own handler would exit with 0 at once
+  const abort = new AbortController();
+  process.removeAllListeners('SIGINT');
+  process.once('SIGINT', () => abort.abort());
+
+  const options: ExtractOptions = {
+    model,
+    prompt,
+    format: format ?? 'text',
+    schemaId: values.schema,
+    language: values.language,
+    sidecar: values.sidecar,
+    abortSignal: abort.signal,
+  };
+  let failures = 0;
+  for (const file of files) {
+    if (files.length > 1 && !values.sidecar) {
+      print(`==> ${file} <==`);
+    }
+    try {
+      const { text, cancelled } = await extractFile(file, options);
+      if (cancelled) {
+        console.error('Cancelled');
+        return 130;
+      }
+      if (values.sidecar) {
+        const target = sidecarPath(file, options.format);
+        await writeFile(target, text.endsWith('\n') ? text : `${text}\n`);
+        console.error(`${file} -> ${target}`);
+      } else if (text) {
+        print(text);
+      }
+    } catch (err) {
+      if (abort.signal.aborted) {
+        console.error('Cancelled');
+        return 130;
+      }
+      failures++;
+      const { code, message } = parseExtractionError(err, String(err));
+      console.error(`${file}: ${message}`);
+      if (code) console.error(`  ${EXTRACTION_ERRORS[code].hint}`);
+      // Ollama down or the model missing would fail every remaining file the same way
+      if (isRequestWideError(err)) {
+        console.error('Skipping the remaining files');
+        break;
+      }
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} of ${files.length} file${files.length === 1 ? '' : 's'} failed`);
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+// The flows log their progress with console.log, which would mix with the text on stdout
+console.log = console.error;
+
+main().then(
+  code => process.exit(code),
+  err => {
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${err.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    console.error(parseExtractionError(err, String(err)).message);
+    process.exit(1);
+  }
+);
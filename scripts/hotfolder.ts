@@ -0,0 +1,111 @@
+/**
+ * Watches the hot folders in hotfolders.json (or --config) and extracts every
+ * image or PDF dropped into them. Runs until it is stopped with Ctrl+C or
+ * SIGTERM; a file that is being extracted then stays in its folder for the
+ * next start. The app shows the watcher's status under Hot Folders.
+ *
+ *   npm run hotfolder -- --config /etc/vision-ocr/hotfolders.json
+ */
+import { parseArgs } from 'node:util';
+import {
+  extractTextFromImage,
+  extractTextFromDocument,
+  DEFAULT_EXTRACTION_PROMPT,
+} from '../lib/genkit/flows';
+import { loadPromptTemplates, findPromptTemplate } from '../lib/genkit/prompts';
+import { renderPromptTemplate } from '../lib/prompts';
+import { getLanguageHint } from '../lib/language';
+import { isPdf } from '../lib/pdf';
+import {
+  loadHotFolderConfig,
+  runHotFolders,
+  HOT_FOLDERS_CONFIG,
+  type HotFolder,
+  type HotFolderProcessor,
+  type ResolvedHotFolder,
+} from '../lib/hotfolder';
+import type { PromptTemplate } from '../lib/prompts';
+
+// Applies the preset, so a typo in the config fails at startup rather than on the first scan
+function resolveFolder(folder: HotFolder, templates: PromptTemplate[]): ResolvedHotFolder {
+  const preset = folder.preset ? findPromptTemplate(templates, folder.preset) : undefined;
+  if (folder.preset && !preset) {
+    const names = templates.map(t => t.id.replace(/^server:/, '')).join(', ');
+    throw new Error(`Hot folder ${folder.name}: unknown preset ${folder.preset}; available: ${names || 'none'}`);
+  }
+
+  // A {{language}} placeholder follows the folder's language, as it follows the language hint in the UI
+  const language = folder.language ? getLanguageHint(folder.language)?.name ?? '' : '';
+  const model = folder.model ?? preset?.defaultModel;
+  if (!model) {
+    throw new Error(`Hot folder ${folder.name}: set a model, or use a preset with a default model`);
+  }
+  return {
+    ...folder,
+    // loadHotFolderConfig fills in the default output folder
+    output: folder.output!,
+    model,
+    prompt: folder.prompt ?? (preset ? renderPromptTemplate(preset, { language, ...folder.variables }) : DEFAULT_EXTRACTION_PROMPT),
+    outputFormat: folder.outputFormat ?? preset?.outputFormat ?? 'text',
+  };
+}
+
+// PDFs from the scanner are rasterized page by page, as in the app
+const extractFile: HotFolderProcessor = async ({ folder, data }, abortSignal) => {
+  const common = {
+    model: folder.model,
+    prompt: folder.prompt,
+    outputFormat: folder.outputFormat,
+    language: folder.language,
+  };
+
+  if (isPdf(data)) {
+    const result = await extractTextFromDocument({ ...common, pdfBase64: data.toString('base64') }, { abortSignal });
+    const failed = result.pages.filter(page => page.error);
+    if (failed.length > 0 && failed.length === result.pages.length) {
+      throw new Error(failed[0].error);
+    }
+    // The saved text marks each failed page; the warning lists them in the status
+    const warning = failed.length > 0
+      ? `page${failed.length === 1 ? '' : 's'} ${failed.map(page => page.page).join(', ')} of ${result.pages.length} failed: ${failed[0].error}`
+      : undefined;
+    return { text: result.extractedText, warning };
+  }
+
+  const result = await extractTextFromImage({ ...common, imageBase64: data.toString('base64') }, { abortSignal });
+  // A cancelled extraction returns empty text, which must not be saved as the result
+  abortSignal.throwIfAborted();
+  return { text: result.extractedText };
+};
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      config: { type: 'string', default: HOT_FOLDERS_CONFIG },
+    },
+  });
+
+  const config = await loadHotFolderConfig(values.config);
+  const templates = await loadPromptTemplates();
+  const folders = config.folders.map(folder => resolveFolder(folder, templates));
+
+  const abort = new AbortController();
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    // Genkit exits right away on these; the watcher stops itself so the status records it
+    process.removeAllListeners(signal);
+    process.once(signal, () => {
+      console.log('Stopping hot folder watcher...');
+      abort.abort();
+    });
+  }
+
+  for (const folder of folders) {
+    console.log(`Watching ${folder.input} (${folder.name}: ${folder.model}${folder.preset ? `, ${folder.preset}` : ''}) -> ${folder.output}`);
+  }
+  await runHotFolders(folders, config, extractFile, abort.signal);
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});